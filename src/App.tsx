@@ -1,26 +1,57 @@
 // src/App.tsx
-import React, { useState, useEffect, useRef, useCallback, CSSProperties } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo, CSSProperties } from 'react';
 // import 'antd/dist/reset.css';
-import { Layout, Typography, ConfigProvider, App as AntApp, Tooltip, Button, Space, theme } from 'antd'; // Import AntApp and ConfigProvider
+import { Layout, Typography, ConfigProvider, App as AntApp, Tooltip, Button, Space, Alert, theme } from 'antd'; // Import AntApp and ConfigProvider
 
 // Hooks
 import useAudioContext from './hooks/useAudioContext'; 
-import { useWebSocket } from './hooks/useWebSocket';
-import { useAudioRecorder } from './hooks/useAudioRecorder';
+import { HEARTBEAT_TIMEOUT_CLOSE_CODE, useWebSocket } from './hooks/useWebSocket';
+import { useAudioRecorder, UseAudioRecorderOptions } from './hooks/useAudioRecorder';
 import { useAudioPlayer } from './hooks/useAudioPlayer';
 import useServerEvents from './hooks/useServerEvents';
+import { useConversationHistory } from './hooks/useConversationHistory';
+import { useConnectionProfiles } from './hooks/useConnectionProfiles';
+import { useSession } from './hooks/useSession';
+import { useAudioCodec } from './hooks/useAudioCodec';
 
 // Components
 import { MessagesList } from './components/MessagesList';
 import { ControlBar } from './components/ControlBar';
 import { MaximizedView } from './components/MaximizedView';
 import { DownloadButton } from './components/DownloadButton';
+import { ConversationSidebar } from './components/ConversationSidebar';
+import { ExportMenu } from './components/ExportMenu';
+import { SettingsDrawer } from './components/SettingsDrawer';
+import { ConnectionProfileSelect } from './components/ConnectionProfileSelect';
+import { ConnectionHealthIndicator } from './components/ConnectionHealthIndicator';
+import type { TextAreaRef } from 'antd/es/input/TextArea';
 
 // Constants
-import { BACKEND_WS_URL, TARGET_SAMPLE_RATE } from './constants';
+import {
+  TARGET_SAMPLE_RATE,
+  CAPTURE_FRAME_MS,
+  BARGE_IN_PREROLL_MS,
+  BARGE_IN_VAD_OPTIONS,
+} from './constants';
 import { Content, Footer, Header } from 'antd/es/layout/layout';
-import { DownCircleOutlined, MoonOutlined, SunOutlined, UpCircleOutlined } from '@ant-design/icons';
+import { DownCircleOutlined, HistoryOutlined, MoonOutlined, SettingOutlined, SunOutlined, UpCircleOutlined } from '@ant-design/icons';
 import useMediaQuery from './hooks/useMediaQuery';
+import { concatArrayBuffers } from './utils/audio';
+import { buildSocketUrl, createAuthProvider } from './utils/connectionProfiles';
+import { createMessageId } from './utils/conversationStore';
+import {
+  describeKeyCode,
+  loadMicrophoneSettings,
+  loadOutputSettings,
+  loadPushToTalkSettings,
+  MicrophoneSettings,
+  OutputSettings,
+  PushToTalkSettings,
+  saveMicrophoneSettings,
+  saveOutputSettings,
+  savePushToTalkSettings,
+} from './utils/audioSettings';
+import { createHello, describeAuthClose, encodeClientMessage, ProtocolDiagnostic } from './protocol';
 
 // --- Styles (Keep existing styles) ---
 const layoutStyle: CSSProperties = { /* ... */
@@ -47,6 +78,9 @@ const downloadButtonContainerStyle: CSSProperties = { /* ... */
 const headerIconButtonStyle: CSSProperties = { /* ... */
     fontSize: '20px', color: 'var(--ant-text-color-secondary)', cursor: 'pointer',
 };
+const protocolAlertStyle: CSSProperties = {
+    position: 'absolute', top: 0, left: 0, right: 0, zIndex: 20,
+};
 // --- End Styles ---
 
 
@@ -54,12 +88,28 @@ const headerIconButtonStyle: CSSProperties = { /* ... */
 const App: React.FC = () => {
   // ─── State & Refs ─────────────────────────────────────
   const [isMicMinimized, setIsMicMinimized] = useState(false); // Start Maximized
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [micSettings, setMicSettings] = useState<MicrophoneSettings>(loadMicrophoneSettings);
+  const [outputSettings, setOutputSettings] = useState<OutputSettings>(loadOutputSettings);
   const [statusMessage, setStatusMessage] = useState<string | null>('Initializing...');
   const [messages, setMessages] = useState<Message[]>([]);
   const [currentUtterance, setCurrentUtterance] = useState<string>('');
+  const [userPartialTranscript, setUserPartialTranscript] = useState<string>('');
   const [lastRawAudioBuffer, setLastRawAudioBuffer] = useState<ArrayBuffer | null>(null);
   const [isAIReady, setIsAIReady] = useState(false);
   const [lastError, setLastError] = useState<string | null>(null); // Consolidated error state
+  const [protocolDiagnostic, setProtocolDiagnostic] = useState<ProtocolDiagnostic | null>(null);
+  const [handsFree, setHandsFree] = useState<boolean>(() => localStorage.getItem('handsFree') === 'true');
+  const [pushToTalk, setPushToTalk] = useState<PushToTalkSettings>(loadPushToTalkSettings);
+  const [awaitingResponse, setAwaitingResponse] = useState(false); // utterance sent, AI reply not in yet
+  const bargeInMonitoring = useRef(false); // mic open during AI speech, waiting for the user to talk
+  const bargeInPreroll = useRef<ArrayBuffer[]>([]);
+  const pushToTalkHeld = useRef(false); // talk key or mic button is down
+  const pushToTalkTurn = useRef(false); // the open mic belongs to a hold, not a click
+  const userAudioChunks = useRef<ArrayBuffer[]>([]); // PCM sent for the turn in progress
+  const pendingUserAudio = useRef<RecordedUtterance[]>([]); // finished turns awaiting their final transcript
+  const textInputRef = useRef<TextAreaRef>(null); // composer in whichever view is showing
 
   // Use the hook to get the ensure function
   const ensureAudioContext = useAudioContext();
@@ -103,18 +153,83 @@ const App: React.FC = () => {
     // },
   };
 
+  // ─── Conversation History (IndexedDB) ──────────────────
+  const {
+    conversationId,
+    conversations,
+    storageUsage,
+    error: historyError,
+    selectConversation,
+    newConversation,
+    renameConversation,
+    deleteConversation,
+    importConversation,
+  } = useConversationHistory(messages, setMessages);
+
+  const conversationTitle = conversations.find((c) => c.id === conversationId)?.title ?? 'Conversation';
+
+  const handleSelectConversation = useCallback((id: string) => {
+    selectConversation(id);
+    setCurrentUtterance('');
+    setLastRawAudioBuffer(null);
+    setIsHistoryOpen(false);
+  }, [selectConversation]);
+
+  const handleNewConversation = useCallback(() => {
+    newConversation();
+    setCurrentUtterance('');
+    setLastRawAudioBuffer(null);
+    setIsHistoryOpen(false);
+  }, [newConversation]);
+
+  const handleImportConversation = useCallback(async (title: string, imported: Message[]) => {
+    await importConversation(title, imported);
+    setCurrentUtterance('');
+    setLastRawAudioBuffer(null);
+    setIsHistoryOpen(false);
+  }, [importConversation]);
+
+  // ─── Connection profiles ───────────────────────────────
+  const {
+    profiles,
+    activeProfile,
+    urlOverride,
+    selectProfile,
+    saveProfile,
+    deleteProfile,
+  } = useConnectionProfiles();
+  const sampleRate = activeProfile.sampleRate; // PCM rate on the wire for this backend
+  // one provider per profile, so tickets are only re-fetched when they're needed
+  const authProvider = useMemo(() => createAuthProvider(activeProfile), [activeProfile]);
+
   // ─── WebSocket Hook ────────────────────────────────────
   const {
     connect: wsConnect, // Renamed to avoid conflict
     disconnect: wsDisconnect, // Renamed
     sendMessage,
+    setOutboundReady,
+    outbound,
+    health,
+    reconnect,
+    retryNow,
     isConnected,
     isConnecting,
     error: wsError,
+    authFailed,
     setOnOpenHandler,
     setOnCloseHandler,
     setOnMessageHandler,
-  } = useWebSocket(BACKEND_WS_URL);
+  } = useWebSocket(buildSocketUrl(activeProfile), activeProfile.subprotocols, authProvider);
+
+  // Server session and frame numbering, presented again after a dropped connection
+  const session = useSession(isConnected, sendMessage);
+
+  const handleSelectProfile = useCallback((id: string) => {
+    if (id === activeProfile.id) return;
+    setStatusMessage('Switching backend...');
+    session.reset(); // a session belongs to one backend
+    selectProfile(id); // useWebSocket closes the old socket, the connect effect opens the new one
+  }, [activeProfile.id, selectProfile, session]);
 
   // ─── Get AudioContext Instance (Helper) ────────────────
   // This function ensures the context exists and is running, updating the ref
@@ -140,52 +255,234 @@ const App: React.FC = () => {
       }
   }, [ensureAudioContext]); // Dependency on the function from the hook
 
-  // ─── Send PCM to backend ───────────────────────────────
-  const handleAudioData = useCallback(
-    (pcm: ArrayBuffer) => {
-      if (isConnected && isAIReady) { // Also check if AI is ready before sending
-          sendMessage(pcm);
-      }
-      // else console.warn('WS not ready or AI not ready; dropping audio chunk');
-    },
-    [isConnected, isAIReady, sendMessage]
-  );
-
-  // ─── Recorder & Player Hooks ───────────────────────────
-  const {
-    isRecording,
-    startRecording,
-    stopRecording,
-    error: recorderError,
-  } = useAudioRecorder(
-    audioContextInstance.current, // Pass the *current value* of the ref
-    handleAudioData,
-    TARGET_SAMPLE_RATE
-    // Hook internally checks if context is valid before using it
-  );
-
+  // ─── Player Hook ───────────────────────────────────────
   const {
     isPlaying: isAISpeaking,
-    playAudio,
     stopPlayback,
+    enqueueChunk,
+    endStream,
+    getStreamProgress,
+    underruns,
+    analyser: outputAnalyser,
+    replay,
+    playMessage,
+    pauseMessage,
+    seekMessage,
     error: playerError,
   } = useAudioPlayer(
       ensureAudioContext, // Pass the ensure function directly to the player hook
-      TARGET_SAMPLE_RATE
+      sampleRate,
+      outputSettings // volume, speed and device for live speech and replays alike
     );
 
+  // ─── User audio for the transcript ─────────────────────
+  const closeUserUtterance = useCallback(() => {
+    if (userAudioChunks.current.length === 0) return;
+    pendingUserAudio.current.push({
+      audio: concatArrayBuffers(userAudioChunks.current.splice(0)),
+      endedAt: Date.now(),
+    });
+  }, []);
+
+  // Oldest finished turn first; if the server finalises mid-turn, take what was sent so far
+  const takeUserAudio = useCallback((): RecordedUtterance | undefined => {
+    if (pendingUserAudio.current.length === 0) closeUserUtterance();
+    return pendingUserAudio.current.shift();
+  }, [closeUserUtterance]);
+
+  // ─── Message replay ────────────────────────────────────
+  // Playback state is overlaid for rendering only, so it never reaches storage
+  const displayedMessages = useMemo(
+    () =>
+      messages.map((m) =>
+        m.id === replay?.messageId
+          ? {
+              ...m,
+              isPlaying: replay.isPlaying,
+              playbackProgress: replay.duration > 0 ? replay.position / replay.duration : 0,
+            }
+          : m
+      ),
+    [messages, replay]
+  );
+
+  // Switching conversations silences any replay from the previous one
+  useEffect(() => {
+    pauseMessage();
+  }, [conversationId, pauseMessage]);
+
+  const handlePlayMessage = useCallback((message: Message) => {
+    if (!message.audioBuffer) return;
+    playMessage(message.id, message.audioBuffer, message.sampleRate ?? TARGET_SAMPLE_RATE);
+  }, [playMessage]);
+
+  const handleSeekMessage = useCallback((message: Message, fraction: number) => {
+    if (!message.audioBuffer) return;
+    seekMessage(message.id, message.audioBuffer, message.sampleRate ?? TARGET_SAMPLE_RATE, fraction);
+  }, [seekMessage]);
+
   // ─── Server Event Hook ─────────────────────────────────
   // Using the dedicated hook for clarity
-  const { handleMessage: handleWsMessage } = useServerEvents(
+  const { handleMessage: handleWsMessage, interruptResponse, cancelResponse, expectResponse } = useServerEvents(
       isAISpeaking,
-      playAudio,
+      enqueueChunk,
+      endStream,
       stopPlayback,
       isAIReady,
       setStatusMessage,
       setIsAIReady,
       setMessages,
       setCurrentUtterance,
-      setLastRawAudioBuffer // Pass the setter for the download buffer
+      setLastRawAudioBuffer, // Pass the setter for the download buffer
+      setProtocolDiagnostic, // Malformed/unknown frames end up in a dismissible banner
+      setUserPartialTranscript,
+      takeUserAudio,
+      sampleRate,
+      session
+  );
+
+  // Wire codec for the audio frames, negotiated in the handshake. The recorder
+  // and player only ever see PCM16.
+  const handleCodecFallback = useCallback((reason: string) => {
+    setStatusMessage(`${reason}; using uncompressed audio`);
+  }, []);
+  const audioCodec = useAudioCodec(
+      activeProfile.audioCodec === 'opus',
+      sampleRate,
+      sendMessage,
+      handleWsMessage,
+      handleCodecFallback
+  );
+  const { sendAudio, flushAudio } = audioCodec;
+
+  // ─── Send PCM to backend ───────────────────────────────
+  const handleAudioData = useCallback(
+    (pcm: ArrayBuffer) => {
+      if (bargeInMonitoring.current) {
+        // Not the user's turn yet: keep a short pre-roll in case they are starting to speak
+        const preroll = bargeInPreroll.current;
+        preroll.push(pcm);
+        if (preroll.length > Math.ceil(BARGE_IN_PREROLL_MS / CAPTURE_FRAME_MS)) preroll.shift();
+        return;
+      }
+      // held by useWebSocket while disconnected or the AI isn't ready, sent on reconnect
+      sendAudio(pcm);
+      userAudioChunks.current.push(pcm);
+    },
+    [sendAudio]
+  );
+
+  // Release queued audio only once the handshake is done and the AI can take it
+  useEffect(() => {
+    setOutboundReady(isConnected && isAIReady);
+  }, [isConnected, isAIReady, setOutboundReady]);
+  const heldAudioMs = outbound.queuedMs;
+  const droppedAudioMs = outbound.droppedMs;
+
+  // ─── End of user turn ──────────────────────────────────
+  // Tell the backend the utterance is complete instead of leaving it to guess
+  const sendUtteranceEnd = useCallback(
+    (reason: 'vad' | 'manual') => {
+      // queued behind the turn's audio (including any still in the encoder), so it can't overtake it
+      void flushAudio().then(() =>
+        sendMessage(encodeClientMessage({ type: 'control', action: 'utteranceEnd', reason }), { queue: true })
+      );
+      closeUserUtterance();
+      expectResponse();
+      setAwaitingResponse(true);
+    },
+    [sendMessage, flushAudio, closeUserUtterance, expectResponse]
+  );
+
+  // Cancelled turn: the backend drops what it has of it and doesn't answer
+  const discardUtterance = useCallback(() => {
+    if (userAudioChunks.current.length > 0) {
+      void flushAudio().then(() =>
+        sendMessage(encodeClientMessage({ type: 'control', action: 'utteranceCancel' }), { queue: true })
+      );
+    }
+    userAudioChunks.current = [];
+    setUserPartialTranscript('');
+  }, [sendMessage, flushAudio]);
+
+  // Silences the AI and says how much of the reply was heard
+  const haltPlayback = useCallback((): PlaybackInterruption => {
+    const progress = getStreamProgress();
+    stopPlayback();
+    return {
+      playedMs: Math.round((progress?.playedSeconds ?? 0) * 1000),
+      receivedMs: Math.round((progress?.receivedSeconds ?? 0) * 1000),
+    };
+  }, [getStreamProgress, stopPlayback]);
+
+  // ─── Barge-in ──────────────────────────────────────────
+  // Silence the AI, tell the backend, and note in the transcript how far it got
+  const interruptAI = useCallback(() => {
+    const interruption = haltPlayback();
+    const responseId = interruptResponse(interruption);
+    if (isConnected) {
+      sendMessage(encodeClientMessage({ type: 'control', action: 'interrupt', playedMs: interruption.playedMs, responseId }));
+    }
+  }, [haltPlayback, isConnected, sendMessage, interruptResponse]);
+
+  // ─── Stop and discard ──────────────────────────────────
+  // Stop button: the backend abandons the reply whether it's playing, still
+  // arriving or not started yet, and the transcript keeps what came of it
+  const stopAIResponse = useCallback(() => {
+    const interruption = haltPlayback();
+    const responseId = cancelResponse(interruption);
+    if (isConnected) {
+      sendMessage(encodeClientMessage({ type: 'control', action: 'responseCancel', playedMs: interruption.playedMs, responseId }));
+    }
+    setAwaitingResponse(false);
+  }, [haltPlayback, isConnected, sendMessage, cancelResponse]);
+
+  // Monitoring turned into a real user turn: flush the pre-roll and keep recording
+  const confirmBargeIn = useCallback(() => {
+    if (!bargeInMonitoring.current) return;
+    console.log('[App] Barge-in detected, interrupting AI.');
+    bargeInMonitoring.current = false;
+    interruptAI();
+    // held like any other turn audio if the connection is down right now
+    const preroll = bargeInPreroll.current.splice(0);
+    preroll.forEach(sendAudio);
+    userAudioChunks.current.push(...preroll);
+  }, [interruptAI, sendAudio]);
+
+  // Mic unplugged mid-turn: answer what was said so far rather than dropping it
+  const handleInputLost = useCallback(() => {
+    if (bargeInMonitoring.current) return; // only the AI was talking
+    if (userAudioChunks.current.length > 0) sendUtteranceEnd('manual');
+  }, [sendUtteranceEnd]);
+
+  const recorderOptions = useMemo<UseAudioRecorderOptions>(
+    () => ({
+      // Trailing silence ends every turn the VAD drives; in push-to-talk
+      // the turn lasts exactly as long as the key is held
+      autoStopOnSilence: !pushToTalk.enabled,
+      onSpeechStart: confirmBargeIn,
+      onSpeechEnd: (autoStopped) => {
+        if (autoStopped) sendUtteranceEnd('vad');
+      },
+      microphone: micSettings,
+      onInputLost: handleInputLost,
+    }),
+    [pushToTalk.enabled, confirmBargeIn, sendUtteranceEnd, micSettings, handleInputLost]
+  );
+
+  // ─── Recorder Hook ─────────────────────────────────────
+  const {
+    isRecording,
+    startRecording,
+    stopRecording,
+    analyser: inputAnalyser,
+    error: recorderError,
+  } = useAudioRecorder(
+    audioContextInstance.current, // Pass the *current value* of the ref
+    handleAudioData,
+    sampleRate,
+    recorderOptions
+    // Hook internally checks if context is valid before using it
   );
 
   // ─── Wire up WS handlers ────────────────────────────────
@@ -193,14 +490,35 @@ const App: React.FC = () => {
     setOnOpenHandler(() => {
       setStatusMessage('Connected, waiting for AI...');
       setIsAIReady(false); // Reset on new connection
+      setAwaitingResponse(false);
       setLastError(null);
+      setProtocolDiagnostic(null);
+      setUserPartialTranscript('');
+      if (heldAudioMs === 0) { // audio held across the drop still belongs to this turn
+        userAudioChunks.current = [];
+        pendingUserAudio.current = [];
+      }
+      audioCodec.beginNegotiation();
+      sendMessage(encodeClientMessage(createHello(session.beginHandshake(), audioCodec.offeredCodecs))); // protocol handshake goes first
     });
     setOnCloseHandler((ev) => {
       setStatusMessage(`Disconnected: ${ev.reason || `Code ${ev.code}`}`);
       setIsAIReady(false);
-      if (isRecording) stopRecording(); // Stop recording if disconnected
       if (isAISpeaking) stopPlayback(); // Stop playback
-      if (ev.code !== 1000 && ev.code !== 1001) { // Log unexpected close
+      const authProblem = describeAuthClose(ev.code);
+      // An unexpected drop keeps the turn going: its audio is held and sent on
+      // reconnect. A clean or rejected close isn't coming back for it.
+      const final = authProblem !== null || ev.code === 1000 || ev.code === 1001 || ev.code === 1005;
+      if (isRecording && final) stopRecording();
+      if (authProblem) { // Rejected credential: reconnecting won't help until the profile changes
+          const errorMsg = `Authentication failed: ${ev.reason || authProblem}`;
+          setStatusMessage('Authentication failed');
+          setLastError(errorMsg);
+          console.warn(errorMsg);
+      } else if (ev.code === HEARTBEAT_TIMEOUT_CLOSE_CODE) {
+          setStatusMessage('Connection timed out, reconnecting...');
+          setLastError(null);
+      } else if (ev.code !== 1000 && ev.code !== 1001) { // Log unexpected close
           const errorMsg = `WebSocket closed unexpectedly (Code: ${ev.code})`;
            setLastError(errorMsg);
            console.warn(errorMsg);
@@ -208,21 +526,35 @@ const App: React.FC = () => {
            setLastError(null);
       }
     });
-    setOnMessageHandler(handleWsMessage); // Use handler from useServerEvents
+    setOnMessageHandler(audioCodec.handleMessage); // decodes audio, then on to useServerEvents
   }, [
     setOnOpenHandler,
     setOnCloseHandler,
     setOnMessageHandler,
-    handleWsMessage, // Add dependency
+    sendMessage,
+    session,
+    heldAudioMs,
+    audioCodec,
     isRecording,    // Add dependency
     isAISpeaking,   // Add dependency
     stopRecording,
     stopPlayback,
   ]);
 
+  // A turn kept going through a drop ends once its held audio starts being
+  // dropped; the backend answers what reaches it, after the rest is flushed
+  useEffect(() => {
+    if (!isRecording || (isConnected && isAIReady) || droppedAudioMs === 0) return;
+    stopRecording();
+    if (!bargeInMonitoring.current && userAudioChunks.current.length > 0) sendUtteranceEnd('manual');
+  }, [isRecording, isConnected, isAIReady, droppedAudioMs, stopRecording, sendUtteranceEnd]);
+
   // ─── Auto‐connect on mount ──────────────────────────────
+  // Unexpected drops are retried by useWebSocket on its own schedule; this
+  // covers the first connection and clean closes (e.g. switching backend).
+  const reconnectPending = reconnect.nextAttemptAt !== null || reconnect.gaveUp || reconnect.offline;
   const connect = useCallback(() => {
-    if (isConnected || isConnecting) return;
+    if (isConnected || isConnecting || authFailed || reconnectPending) return;
     // Ensure audio context *before* attempting WS connection
     getAudioContext().then((ac) => {
       if (ac) {
@@ -232,75 +564,257 @@ const App: React.FC = () => {
           // Error message already set by getAudioContext
       }
     });
-  }, [isConnected, isConnecting, getAudioContext, wsConnect]);
+  }, [isConnected, isConnecting, authFailed, reconnectPending, getAudioContext, wsConnect]);
 
   useEffect(() => {
     connect(); // Attempt connection on mount
   }, [connect]); // Include connect in dependency array
 
 
+  // ─── Start listening ───────────────────────────────────
+  const beginListening = useCallback(async () => {
+    // Pre-checks
+    if (!isConnected) {
+        setLastError("Not connected to the server.");
+        setStatusMessage("Disconnected");
+        return;
+    }
+     if (!isAIReady) {
+        setLastError("AI service is not ready yet.");
+        setStatusMessage("Waiting for AI...");
+        return;
+    }
+    if (isConnecting) {
+        setLastError("Still connecting...");
+        setStatusMessage("Connecting...");
+        return;
+    }
+
+    // Ensure Audio Context is active *before* starting
+    const ac = await getAudioContext();
+    if (!ac) {
+      // Error state/message handled within getAudioContext
+      return;
+    }
+
+    // Stop AI playback if user interrupts
+    if (isAISpeaking) {
+        interruptAI();
+    }
+
+    // Attempt to start recording
+    try {
+        await startRecording(); // Assumes startRecording is async and might throw/return errors
+    } catch (err) {
+        const errorMsg = `Microphone Error: ${err instanceof Error ? err.message : String(err)}`;
+        console.error(errorMsg, err);
+        setLastError(errorMsg);
+        setStatusMessage("Mic Error");
+    }
+  }, [
+    isConnected,
+    isAIReady,
+    isConnecting,
+    isAISpeaking,
+    getAudioContext, // Use the helper
+    startRecording,
+    interruptAI,
+  ]);
+
   // ─── Mic toggle ────────────────────────────────────────
   const handleMicClick = useCallback(async () => {
     setLastError(null); // Clear previous error on interaction
 
-    if (isRecording) {
+    if (bargeInMonitoring.current) {
+      confirmBargeIn(); // tapping while the AI talks takes the turn
+    } else if (isRecording) {
       stopRecording();
-      // Maybe set status to "Processing..." or similar? Depends on backend speed.
-      // setStatusMessage('Processing...');
+      sendUtteranceEnd('manual');
     } else {
-      // Pre-checks
-      if (!isConnected) {
-          setLastError("Not connected to the server.");
-          setStatusMessage("Disconnected");
-          return;
+      pushToTalkTurn.current = false;
+      await beginListening();
+    }
+  }, [isRecording, stopRecording, sendUtteranceEnd, beginListening, confirmBargeIn]);
+
+  // Discard button: drop the turn being recorded instead of sending it
+  const cancelUtterance = useCallback(() => {
+    if (!isRecording || bargeInMonitoring.current) return;
+    pushToTalkTurn.current = false;
+    stopRecording();
+    discardUtterance();
+  }, [isRecording, stopRecording, discardUtterance]);
+
+  // ─── Push-to-talk ──────────────────────────────────────
+  // Holding the talk key or the mic button records; letting go sends the
+  // turn, or discards it when the gesture was cancelled
+  const startTalking = useCallback(async () => {
+    if (pushToTalkHeld.current) return;
+    pushToTalkHeld.current = true;
+    pushToTalkTurn.current = true;
+    setLastError(null);
+    if (bargeInMonitoring.current) confirmBargeIn(); // mic already open, just take the turn
+    else if (!isRecording) await beginListening();
+  }, [isRecording, beginListening, confirmBargeIn]);
+
+  const stopTalking = useCallback((cancel: boolean) => {
+    if (!pushToTalkHeld.current) return;
+    pushToTalkHeld.current = false;
+    if (!isRecording) return; // mic still opening, the effect below closes it
+    pushToTalkTurn.current = false;
+    stopRecording();
+    if (cancel) discardUtterance();
+    else sendUtteranceEnd('manual');
+  }, [isRecording, stopRecording, discardUtterance, sendUtteranceEnd]);
+
+  // Let go before the mic had opened: too short to be a turn
+  useEffect(() => {
+    if (!isRecording || !pushToTalkTurn.current || pushToTalkHeld.current || bargeInMonitoring.current) return;
+    pushToTalkTurn.current = false;
+    stopRecording();
+    discardUtterance();
+  }, [isRecording, stopRecording, discardUtterance]);
+
+  // ─── Typed user turn ───────────────────────────────────
+  // Returns false when it couldn't be sent, so the composer keeps the draft
+  const sendTextMessage = useCallback((text: string): boolean => {
+    if (!isConnected || !isAIReady) {
+      setLastError('Not connected to the AI service.');
+      return false;
+    }
+    if (isAISpeaking) interruptAI();
+    if (isRecording) {
+      // the typed turn replaces whatever was being said
+      bargeInMonitoring.current = false;
+      stopRecording();
+      userAudioChunks.current = [];
+    }
+    sendMessage(encodeClientMessage({ type: 'userText', text }));
+    expectResponse();
+    const timestamp = Date.now();
+    setMessages((prev) => [...prev, { id: createMessageId('user-text'), sender: 'user', text, timestamp }]);
+    setAwaitingResponse(true);
+    return true;
+  }, [isConnected, isAIReady, isAISpeaking, isRecording, interruptAI, stopRecording, sendMessage, expectResponse]);
+
+  // ─── Keyboard shortcuts ────────────────────────────────
+  // Alt+M toggles voice input, "/" jumps to the message box, and in
+  // push-to-talk mode the talk key records while it's held
+  useEffect(() => {
+    const isTyping = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      return !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (pushToTalk.enabled && e.code === pushToTalk.key && !e.ctrlKey && !e.metaKey && !e.altKey && !isTyping(e)) {
+        e.preventDefault(); // no scrolling or button presses from Space, repeats included
+        if (!e.repeat) startTalking();
+        return;
       }
-       if (!isAIReady) {
-          setLastError("AI service is not ready yet.");
-          setStatusMessage("Waiting for AI...");
-          return;
+      if (e.repeat) return;
+      if (e.altKey && e.code === 'KeyM') { // code, since Alt changes the typed character on macOS
+        e.preventDefault();
+        handleMicClick();
+        return;
       }
-      if (isConnecting) {
-          setLastError("Still connecting...");
-          setStatusMessage("Connecting...");
-          return;
+      if (e.key === '/' && !isTyping(e) && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        e.preventDefault();
+        textInputRef.current?.focus();
       }
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (!pushToTalk.enabled || e.code !== pushToTalk.key || !pushToTalkHeld.current) return;
+      e.preventDefault();
+      stopTalking(false);
+    };
+    // the key-up never arrives once the window has lost focus
+    const onBlur = () => stopTalking(false);
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [handleMicClick, pushToTalk, startTalking, stopTalking]);
 
-      // Ensure Audio Context is active *before* starting
-      const ac = await getAudioContext();
-      if (!ac) {
-        // Error state/message handled within getAudioContext
-        return;
-      }
+  // ─── Barge-in monitoring ───────────────────────────────
+  // Recording ended (turn sent, error, disconnect): nothing is being monitored any more
+  useEffect(() => {
+    if (isRecording) return;
+    bargeInMonitoring.current = false;
+  }, [isRecording]);
 
-      // Stop AI playback if user interrupts
-      if (isAISpeaking) {
-          stopPlayback();
-      }
+  // Keep the mic open while the AI talks so the user can cut in
+  useEffect(() => {
+    if (!isAISpeaking || isRecording || !isConnected || !isAIReady) return;
+    if (recorderError) return; // mic unavailable, plain playback it is
+    if (!micSettings.echoCancellation) return; // the AI's own voice would trigger it
+    if (pushToTalk.enabled) return; // only what's said while holding counts
+    bargeInMonitoring.current = true;
+    bargeInPreroll.current = [];
+    startRecording(BARGE_IN_VAD_OPTIONS);
+  }, [isAISpeaking, isRecording, isConnected, isAIReady, recorderError, micSettings.echoCancellation, pushToTalk.enabled, startRecording]);
 
-      // Clear previous AI utterance if needed
-      // setCurrentUtterance('');
+  // AI finished without being interrupted: close the monitoring mic
+  useEffect(() => {
+    if (isAISpeaking || !bargeInMonitoring.current) return;
+    bargeInMonitoring.current = false;
+    bargeInPreroll.current = [];
+    stopRecording(); // hands-free re-opens it with the normal VAD
+  }, [isAISpeaking, stopRecording]);
 
-      // Attempt to start recording
-      try {
-          await startRecording(); // Assumes startRecording is async and might throw/return errors
-          // setStatusMessage('Listening...'); // Status set by recorder hook might be sufficient
-      } catch (err) {
-          const errorMsg = `Microphone Error: ${err instanceof Error ? err.message : String(err)}`;
-          console.error(errorMsg, err);
-          setLastError(errorMsg);
-          setStatusMessage("Mic Error");
-      }
+  // ─── Settings ──────────────────────────────────────────
+  const handleMicSettingsChange = useCallback((settings: MicrophoneSettings) => {
+    saveMicrophoneSettings(settings);
+    setMicSettings(settings);
+  }, []);
+
+  const handleOutputSettingsChange = useCallback((settings: OutputSettings) => {
+    saveOutputSettings(settings);
+    setOutputSettings(settings);
+  }, []);
+
+  // ─── Hands-free and push-to-talk ───────────────────────
+  // Two ways of ending a turn that can't both apply, so turning one on turns the other off
+  const handlePushToTalkChange = useCallback((settings: PushToTalkSettings) => {
+    savePushToTalkSettings(settings);
+    setPushToTalk(settings);
+    if (settings.enabled) {
+      localStorage.setItem('handsFree', 'false');
+      setHandsFree(false);
     }
+  }, []);
+
+  const handleHandsFreeChange = useCallback((enabled: boolean) => {
+    localStorage.setItem('handsFree', String(enabled));
+    setHandsFree(enabled);
+    if (enabled && pushToTalk.enabled) handlePushToTalkChange({ ...pushToTalk, enabled: false });
+  }, [pushToTalk, handlePushToTalkChange]);
+
+  // The AI has answered once its message lands in the transcript
+  useEffect(() => {
+    if (messages[messages.length - 1]?.sender === 'user') return; // our own turn, not the answer
+    setAwaitingResponse(false);
+  }, [messages]);
+
+  // Re-open the mic whenever the assistant is idle again
+  useEffect(() => {
+    if (!handsFree || isRecording || isAISpeaking || awaitingResponse) return;
+    if (!isConnected || isConnecting || !isAIReady) return;
+    if (recorderError || lastError) return; // don't hammer a failing mic
+    beginListening();
   }, [
+    handsFree,
     isRecording,
+    isAISpeaking,
+    awaitingResponse,
     isConnected,
-    isAIReady,
     isConnecting,
-    isAISpeaking,
-    getAudioContext, // Use the helper
-    startRecording,
-    stopRecording,
-    stopPlayback,
+    isAIReady,
+    recorderError,
+    lastError,
+    beginListening,
   ]);
 
   // --- Minimize/Maximize Toggle ---
@@ -347,6 +861,39 @@ const App: React.FC = () => {
                     </Typography.Title>
                     {/* Use Space for multiple header icons */}
                     <Space style={{ marginLeft: 'auto' }}>
+                        <ConnectionHealthIndicator health={health} showLatency={!isMobile} underruns={underruns} />
+                        <ConnectionProfileSelect
+                            profiles={profiles}
+                            activeProfile={activeProfile}
+                            urlOverride={urlOverride}
+                            onSelect={handleSelectProfile}
+                            onManage={() => setIsSettingsOpen(true)}
+                            disabled={isConnecting}
+                            isMobile={isMobile}
+                        />
+                        <Tooltip title="Conversation History">
+                            <Button
+                                type="text"
+                                shape="circle"
+                                icon={<HistoryOutlined />}
+                                style={headerIconButtonStyle}
+                                onClick={() => setIsHistoryOpen(true)}
+                            />
+                        </Tooltip>
+                        <ExportMenu
+                            title={conversationTitle}
+                            messages={messages}
+                            buttonStyle={headerIconButtonStyle}
+                        />
+                        <Tooltip title="Settings">
+                            <Button
+                                type="text"
+                                shape="circle"
+                                icon={<SettingOutlined />}
+                                style={headerIconButtonStyle}
+                                onClick={() => setIsSettingsOpen(true)}
+                            />
+                        </Tooltip>
                         <Tooltip title={`Switch to ${themeMode === 'light' ? 'Dark' : 'Light'} Mode`}>
                              <Button
                                  type="text"
@@ -369,7 +916,49 @@ const App: React.FC = () => {
                     </Space>
                 </Header>
 
+                <ConversationSidebar
+                    open={isHistoryOpen}
+                    onClose={() => setIsHistoryOpen(false)}
+                    conversations={conversations}
+                    activeId={conversationId}
+                    storageUsage={storageUsage}
+                    error={historyError}
+                    onSelect={handleSelectConversation}
+                    onNew={handleNewConversation}
+                    onRename={renameConversation}
+                    onDelete={deleteConversation}
+                    onImport={handleImportConversation}
+                    isMobile={isMobile}
+                />
+
+                <SettingsDrawer
+                    open={isSettingsOpen}
+                    onClose={() => setIsSettingsOpen(false)}
+                    microphone={micSettings}
+                    onMicrophoneChange={handleMicSettingsChange}
+                    output={outputSettings}
+                    onOutputChange={handleOutputSettingsChange}
+                    pushToTalk={pushToTalk}
+                    onPushToTalkChange={handlePushToTalkChange}
+                    profiles={profiles}
+                    activeProfileId={activeProfile.id}
+                    onSaveProfile={saveProfile}
+                    onDeleteProfile={deleteProfile}
+                    isMobile={isMobile}
+                />
+
                 <Content style={contentStyle}>
+                    {protocolDiagnostic && (
+                        <Alert
+                            type="warning"
+                            showIcon
+                            closable
+                            banner
+                            message={`Protocol ${protocolDiagnostic.kind}: ${protocolDiagnostic.detail}`}
+                            onClose={() => setProtocolDiagnostic(null)}
+                            style={protocolAlertStyle}
+                        />
+                    )}
                     {!isMicMinimized ? (
                         <MaximizedView
                             isRecording={isRecording}
@@ -379,6 +968,23 @@ const App: React.FC = () => {
                             isAISpeaking={isAISpeaking}
                             statusMessage={statusMessage}
                             onMicClick={handleMicClick}
+                            liveTranscript={userPartialTranscript}
+                            handsFree={handsFree}
+                            onHandsFreeChange={handleHandsFreeChange}
+                            pushToTalkKey={pushToTalk.enabled ? describeKeyCode(pushToTalk.key) : null}
+                            onTalkStart={startTalking}
+                            onTalkEnd={stopTalking}
+                            onDiscardUtterance={cancelUtterance}
+                            onStopResponse={stopAIResponse}
+                            canStopResponse={awaitingResponse || isAISpeaking}
+                            onSendText={sendTextMessage}
+                            textInputRef={textInputRef}
+                            inputAnalyser={inputAnalyser}
+                            outputAnalyser={outputAnalyser}
+                            heldAudioMs={heldAudioMs}
+                            droppedAudioMs={droppedAudioMs}
+                            reconnect={reconnect}
+                            onRetryNow={retryNow}
                             error={lastError}
                             isMobile={isMobile} // Pass mobile flag
                         />
@@ -386,7 +992,19 @@ const App: React.FC = () => {
                         <>
                             <div style={messagesListContainerStyle}>
                                 {/* Pass isMobile to MessagesList if it needs adjustments */}
-                                <MessagesList messages={messages} isMicMinimized={isMicMinimized} /* isMobile={isMobile} */ />
+                                <MessagesList
+                                    messages={displayedMessages}
+                                    isMicMinimized={isMicMinimized}
+                                    onPlayMessage={handlePlayMessage}
+                                    onPauseMessage={pauseMessage}
+                                    onSeekMessage={handleSeekMessage}
+                                    /* isMobile={isMobile} */
+                                />
+                                {userPartialTranscript && (
+                                    <Typography.Text italic style={{ padding: '0 1rem', color: 'var(--ant-text-color-secondary)', display: 'block', textAlign: 'right' }}>
+                                        You: {userPartialTranscript}...
+                                    </Typography.Text>
+                                )}
                                 {currentUtterance && !isAISpeaking && (
                                     <Typography.Text italic style={{ padding: '0 1rem', color: 'var(--ant-text-color-secondary)', display: 'block' }}>
                                         AI: {currentUtterance}...
@@ -402,6 +1020,18 @@ const App: React.FC = () => {
                                     isAISpeaking={isAISpeaking}
                                     statusMessage={statusMessage}
                                     onMicClick={handleMicClick}
+                                    onDiscardUtterance={cancelUtterance}
+                                    onStopResponse={stopAIResponse}
+                                    canStopResponse={awaitingResponse || isAISpeaking}
+                                    onSendText={sendTextMessage}
+                                    textInputRef={textInputRef}
+                                    inputAnalyser={inputAnalyser}
+                                    heldAudioMs={heldAudioMs}
+                                    droppedAudioMs={droppedAudioMs}
+                                    health={health}
+                                    underruns={underruns}
+                                    reconnect={reconnect}
+                                    onRetryNow={retryNow}
                                     isMicMinimized={isMicMinimized}
                                     error={lastError}
                                     isMobile={isMobile} // Pass mobile flag
@@ -412,7 +1042,7 @@ const App: React.FC = () => {
                     {!isMicMinimized && !isAISpeaking && lastRawAudioBuffer && (
                         <div style={downloadButtonContainerStyle}>
                              {/* Pass isMobile if download button needs style changes */}
-                            <DownloadButton lastRawAudioBuffer={lastRawAudioBuffer} isPlaying={isAISpeaking} /* isMobile={isMobile} */ />
+                            <DownloadButton lastRawAudioBuffer={lastRawAudioBuffer} sampleRate={sampleRate} isPlaying={isAISpeaking} /* isMobile={isMobile} */ />
                         </div>
                     )}
                 </Content>
@@ -0,0 +1,64 @@
+// src/components/AudioVisualizer.tsx
+import React, { CSSProperties, useEffect, useRef } from 'react';
+
+interface Props {
+  getFrequencyData: () => Uint8Array | null; // from useAudioLevel
+  color: string;
+  width: number; // CSS pixels
+  height: number;
+  label: string; // for screen readers
+}
+
+const BAR_COUNT = 32;
+const BAR_GAP = 2;
+// Speech energy sits well below the Nyquist frequency; spread the bars over the lower part
+const SPEECH_BAND_FRACTION = 0.4;
+
+const canvasStyle: CSSProperties = {
+  display: 'block',
+};
+
+// Mirrored frequency bars drawn on a canvas every animation frame
+export const AudioVisualizer: React.FC<Props> = ({ getFrequencyData, color, width, height, label }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    ctx.scale(dpr, dpr);
+
+    const barWidth = (width - BAR_GAP * (BAR_COUNT - 1)) / BAR_COUNT;
+    let frame = 0;
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      ctx.clearRect(0, 0, width, height);
+      ctx.fillStyle = color;
+      const bins = getFrequencyData();
+      const usable = bins ? Math.max(BAR_COUNT, Math.floor(bins.length * SPEECH_BAND_FRACTION)) : 0;
+      const binsPerBar = Math.max(1, Math.floor(usable / BAR_COUNT));
+
+      for (let bar = 0; bar < BAR_COUNT; bar++) {
+        let value = 0;
+        if (bins) {
+          for (let i = bar * binsPerBar; i < (bar + 1) * binsPerBar && i < bins.length; i++) {
+            value = Math.max(value, bins[i]);
+          }
+        }
+        // a flat line at rest, so the canvas never looks empty
+        const barHeight = Math.max(2, (value / 255) * height);
+        const x = bar * (barWidth + BAR_GAP);
+        ctx.fillRect(x, (height - barHeight) / 2, barWidth, barHeight);
+      }
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [getFrequencyData, color, width, height]);
+
+  return <canvas ref={canvasRef} style={{ ...canvasStyle, width, height }} role="img" aria-label={label} />;
+};
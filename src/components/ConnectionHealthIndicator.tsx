@@ -0,0 +1,37 @@
+// src/components/ConnectionHealthIndicator.tsx
+import React from 'react';
+import { Badge, Tooltip } from 'antd';
+import type { BadgeProps } from 'antd';
+import type { ConnectionHealth, ConnectionQuality } from '../hooks/useWebSocket';
+
+interface Props {
+  health: ConnectionHealth;
+  showLatency: boolean; // the "42 ms" label; the dot alone where space is tight
+  underruns: number; // times the AI's audio ran dry and had to re-buffer
+}
+
+const QUALITY: Record<ConnectionQuality, { status: BadgeProps['status']; label: string }> = {
+  good: { status: 'success', label: 'Connection good' },
+  degraded: { status: 'warning', label: 'Connection degraded' },
+  bad: { status: 'error', label: 'Connection poor' },
+};
+
+const STALLED = { status: 'warning', label: 'Playback stalled' } as const;
+
+// Heartbeat round trip as a coloured dot; hidden until the backend answers a
+// ping, unless the AI's audio has already stalled
+export const ConnectionHealthIndicator: React.FC<Props> = ({ health, showLatency, underruns }) => {
+  if (!health.quality && underruns === 0) return null;
+  const { status, label } = health.quality ? QUALITY[health.quality] : STALLED;
+  const latency = health.latencyMs !== null ? `${Math.round(health.latencyMs)} ms` : null;
+  const stalls = underruns > 0 ? `. Playback re-buffered ${underruns} time${underruns === 1 ? '' : 's'}` : '';
+  return (
+    <Tooltip title={`${latency ? `${label}: ${latency} average round trip` : label}${stalls}`}>
+      <Badge
+        status={status}
+        text={showLatency && latency ? <span style={{ fontSize: '0.75rem' }}>{latency}</span> : null}
+        aria-label={label}
+      />
+    </Tooltip>
+  );
+};
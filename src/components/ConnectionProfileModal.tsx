@@ -0,0 +1,177 @@
+// src/components/ConnectionProfileModal.tsx
+import React from 'react';
+import { Button, Form, Input, Modal, Select, Space } from 'antd';
+import { MinusCircleOutlined, PlusOutlined } from '@ant-design/icons';
+import {
+  ConnectionProfile,
+  PROFILE_SAMPLE_RATES,
+  QueryParam,
+  isValidHttpUrl,
+  isValidSocketUrl,
+} from '../utils/connectionProfiles';
+import type { AuthMode, AuthTransport } from '../utils/auth';
+import type { AudioCodec } from '../protocol';
+
+interface Props {
+  profile: ConnectionProfile | null; // null = closed
+  isNew: boolean;
+  onSave: (profile: ConnectionProfile) => void;
+  onCancel: () => void;
+}
+
+const AUTH_MODE_OPTIONS: { value: AuthMode; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'bearer', label: 'Bearer token' },
+  { value: 'ticket', label: 'Ticket from endpoint' },
+];
+
+const AUTH_TRANSPORT_OPTIONS: { value: AuthTransport; label: string }[] = [
+  { value: 'query', label: 'Query parameter (?token=)' },
+  { value: 'firstFrame', label: 'First message' },
+  { value: 'subprotocol', label: 'Subprotocol' },
+];
+
+const AUDIO_CODEC_OPTIONS: { value: AudioCodec; label: string }[] = [
+  { value: 'pcm16', label: 'PCM16 (uncompressed)' },
+  { value: 'opus', label: 'Opus when available' },
+];
+
+interface FormValues {
+  name: string;
+  url: string;
+  authMode: AuthMode;
+  token?: string;
+  ticketUrl?: string;
+  authTransport: AuthTransport;
+  subprotocols: string[];
+  sampleRate: number;
+  audioCodec: AudioCodec;
+  queryParams: QueryParam[];
+}
+
+// Add/edit form for one backend profile
+export const ConnectionProfileModal: React.FC<Props> = ({ profile, isNew, onSave, onCancel }) => {
+  const [form] = Form.useForm<FormValues>();
+  const authMode = Form.useWatch('authMode', form);
+
+  const handleOk = async () => {
+    if (!profile) return;
+    const values = await form.validateFields();
+    onSave({
+      id: profile.id,
+      name: values.name.trim(),
+      url: values.url.trim(),
+      authMode: values.authMode,
+      token: values.authMode === 'none' ? undefined : values.token?.trim() || undefined,
+      ticketUrl: values.authMode === 'ticket' ? values.ticketUrl?.trim() : undefined,
+      authTransport: values.authTransport ?? profile.authTransport, // unmounted while auth is off
+      subprotocols: values.subprotocols ?? [],
+      sampleRate: values.sampleRate,
+      audioCodec: values.audioCodec,
+      queryParams: (values.queryParams ?? []).filter((q) => q?.key),
+    });
+  };
+
+  return (
+    <Modal
+      title={isNew ? 'Add connection profile' : 'Edit connection profile'}
+      open={!!profile}
+      onOk={handleOk}
+      onCancel={onCancel}
+      okText="Save"
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical" preserve={false} initialValues={profile ?? undefined}>
+        <Form.Item name="name" label="Name" rules={[{ required: true, whitespace: true, message: 'Give the profile a name' }]}>
+          <Input placeholder="Staging" />
+        </Form.Item>
+        <Form.Item
+          name="url"
+          label="WebSocket URL"
+          rules={[
+            { required: true, message: 'Enter the backend URL' },
+            {
+              validator: (_, value: string) =>
+                !value || isValidSocketUrl(value.trim())
+                  ? Promise.resolve()
+                  : Promise.reject(new Error('Must be a ws:// or wss:// URL')),
+            },
+          ]}
+        >
+          <Input placeholder="wss://example.com/ws" />
+        </Form.Item>
+        <Form.Item name="authMode" label="Authentication">
+          <Select options={AUTH_MODE_OPTIONS} />
+        </Form.Item>
+        {authMode === 'ticket' && (
+          <Form.Item
+            name="ticketUrl"
+            label="Ticket endpoint"
+            tooltip="POSTed to before every connection and again before the ticket expires."
+            rules={[
+              { required: true, message: 'Enter the ticket endpoint' },
+              {
+                validator: (_, value: string) =>
+                  !value || isValidHttpUrl(value.trim())
+                    ? Promise.resolve()
+                    : Promise.reject(new Error('Must be an http:// or https:// URL')),
+              },
+            ]}
+          >
+            <Input placeholder="https://example.com/ws-ticket" />
+          </Form.Item>
+        )}
+        {authMode !== 'none' && (
+          <>
+            <Form.Item
+              name="token"
+              label={authMode === 'ticket' ? 'Endpoint bearer token' : 'Bearer token'}
+              tooltip={authMode === 'ticket' ? 'Sent to the ticket endpoint as Authorization: Bearer.' : undefined}
+              rules={[{ required: authMode === 'bearer', message: 'Enter the token' }]}
+            >
+              <Input.Password placeholder={authMode === 'ticket' ? 'Optional' : undefined} autoComplete="off" />
+            </Form.Item>
+            <Form.Item name="authTransport" label="Send credential as">
+              <Select options={AUTH_TRANSPORT_OPTIONS} />
+            </Form.Item>
+          </>
+        )}
+        <Form.Item name="subprotocols" label="Subprotocols">
+          <Select mode="tags" placeholder="Optional" tokenSeparators={[',', ' ']} open={false} />
+        </Form.Item>
+        <Form.Item name="sampleRate" label="Sample rate" tooltip="PCM rate the backend sends and expects.">
+          <Select options={PROFILE_SAMPLE_RATES.map((rate) => ({ value: rate, label: `${rate} Hz` }))} />
+        </Form.Item>
+        <Form.Item
+          name="audioCodec"
+          label="Audio codec"
+          tooltip="Opus needs WebCodecs and a sample rate other than 22050 Hz; otherwise PCM16 is used."
+        >
+          <Select options={AUDIO_CODEC_OPTIONS} />
+        </Form.Item>
+        <Form.Item label="Query parameters">
+          <Form.List name="queryParams">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map(({ key, name }) => (
+                  <Space key={key} align="baseline" style={{ display: 'flex', marginBottom: 8 }}>
+                    <Form.Item name={[name, 'key']} noStyle rules={[{ required: true, message: 'Key' }]}>
+                      <Input placeholder="key" />
+                    </Form.Item>
+                    <Form.Item name={[name, 'value']} noStyle initialValue="">
+                      <Input placeholder="value" />
+                    </Form.Item>
+                    <MinusCircleOutlined onClick={() => remove(name)} aria-label="Remove parameter" />
+                  </Space>
+                ))}
+                <Button type="dashed" onClick={() => add({ key: '', value: '' })} icon={<PlusOutlined />} block>
+                  Add parameter
+                </Button>
+              </>
+            )}
+          </Form.List>
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
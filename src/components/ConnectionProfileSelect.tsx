@@ -0,0 +1,57 @@
+// src/components/ConnectionProfileSelect.tsx
+import React from 'react';
+import { Button, Divider, Select, Tooltip } from 'antd';
+import { ApiOutlined, SettingOutlined } from '@ant-design/icons';
+import type { ConnectionProfile } from '../utils/connectionProfiles';
+
+interface Props {
+  profiles: ConnectionProfile[];
+  activeProfile: ConnectionProfile;
+  urlOverride: ConnectionProfile | null;
+  onSelect: (id: string) => void;
+  onManage: () => void;
+  disabled: boolean;
+  isMobile: boolean;
+}
+
+// Header dropdown for switching backends; switching reconnects
+export const ConnectionProfileSelect: React.FC<Props> = ({
+  profiles,
+  activeProfile,
+  urlOverride,
+  onSelect,
+  onManage,
+  disabled,
+  isMobile,
+}) => {
+  const options = [
+    ...(urlOverride ? [{ value: urlOverride.id, label: urlOverride.name }] : []),
+    ...profiles.map((p) => ({ value: p.id, label: p.name })),
+  ];
+
+  return (
+    <Tooltip title={`Backend: ${activeProfile.url}`} placement="bottom">
+      <Select
+        size="small"
+        variant="borderless"
+        value={activeProfile.id}
+        options={options}
+        onChange={onSelect}
+        disabled={disabled}
+        suffixIcon={<ApiOutlined />}
+        style={{ width: isMobile ? 110 : 160 }}
+        popupMatchSelectWidth={false}
+        aria-label="Connection profile"
+        dropdownRender={(menu) => (
+          <>
+            {menu}
+            <Divider style={{ margin: '4px 0' }} />
+            <Button type="text" size="small" icon={<SettingOutlined />} onClick={onManage} block>
+              Manage profiles…
+            </Button>
+          </>
+        )}
+      />
+    </Tooltip>
+  );
+};
@@ -1,6 +1,6 @@
 // src/components/ControlBar.tsx
 import React, { CSSProperties } from 'react';
-import { Button, Badge, Tooltip, Space, Progress } from 'antd';
+import { Button, Badge, Tooltip, Space } from 'antd';
 import {
   AudioOutlined,
   AudioMutedOutlined,
@@ -9,7 +9,18 @@ import {
   SoundOutlined,
   LoadingOutlined,
   ApiOutlined,
+  WarningOutlined,
+  DeleteOutlined,
+  StopOutlined,
 } from '@ant-design/icons';
+import type { TextAreaRef } from 'antd/es/input/TextArea';
+import { TextComposer } from './TextComposer';
+import { LevelMeter } from './LevelMeter';
+import { OutboundQueueIndicator } from './OutboundQueueIndicator';
+import { ConnectionHealthIndicator } from './ConnectionHealthIndicator';
+import { ReconnectNotice } from './ReconnectNotice';
+import type { ConnectionHealth, ReconnectState } from '../hooks/useWebSocket';
+import { useAudioLevel } from '../hooks/useAudioLevel';
 
 interface Props {
   isRecording: boolean;
@@ -19,6 +30,18 @@ interface Props {
   isAISpeaking: boolean;
   statusMessage: string | null;
   onMicClick: () => void;
+  onDiscardUtterance: () => void; // drop the turn being recorded
+  onStopResponse: () => void; // abandon the AI reply
+  canStopResponse: boolean; // a reply is pending, arriving or playing
+  onSendText: (text: string) => boolean;
+  textInputRef?: React.Ref<TextAreaRef>;
+  inputAnalyser: AnalyserNode | null; // mic tap while recording
+  heldAudioMs: number; // audio queued while the backend is unreachable
+  droppedAudioMs: number;
+  health: ConnectionHealth; // heartbeat round trip
+  underruns: number; // live playback stalls this session
+  reconnect: ReconnectState;
+  onRetryNow: () => void;
   isMicMinimized: boolean; // Keep prop if needed for other logic, though toggle is removed
   // toggleMicMinimize: () => void; // Removed Prop
   error: string | null;
@@ -43,6 +66,10 @@ const baseStyles = {
         justifyContent: 'center',
     } as CSSProperties,
     centerContent: {} as CSSProperties,
+    composer: {
+        flexGrow: 1,
+        maxWidth: '560px',
+    } as CSSProperties,
     micButton: {
          // No specific base style needed now
     } as CSSProperties,
@@ -63,6 +90,18 @@ export const ControlBar: React.FC<Props> = ({
   isAISpeaking,
   statusMessage,
   onMicClick,
+  onDiscardUtterance,
+  onStopResponse,
+  canStopResponse,
+  onSendText,
+  textInputRef,
+  inputAnalyser,
+  heldAudioMs,
+  droppedAudioMs,
+  health,
+  underruns,
+  reconnect,
+  onRetryNow,
   isMobile,
   // isMicMinimized, // Keep if needed elsewhere
   // toggleMicMinimize, // Removed Prop
@@ -73,21 +112,21 @@ export const ControlBar: React.FC<Props> = ({
     let displayText = statusMessage || 'Idle';
     let micIcon: React.ReactNode = <AudioOutlined />;
     let buttonDisabled = false;
-    let showProgress = false;
-    let micTooltip = 'Start Recording';
+    let showMeter = false;
+    let micTooltip = 'Start Recording (Alt+M)';
 
     if (isConnecting) { /* ... state logic ... */
         badgeStatus = 'processing'; displayText = 'Connecting...'; micIcon = <LoadingOutlined />; buttonDisabled = true; micTooltip = 'Connecting...';
     } else if (error || !isConnected) { /* ... state logic ... */
         badgeStatus = 'error'; displayText = error || 'Disconnected'; micIcon = <ApiOutlined style={{color: 'red'}}/>; buttonDisabled = true; micTooltip = 'Connection Error';
+    } else if (isAISpeaking) { /* ... state logic ... (mic may be open for barge-in) */
+        badgeStatus = 'processing'; displayText = 'AI Speaking'; micIcon = <SoundOutlined />; buttonDisabled = false; micTooltip = 'Interrupt AI (Alt+M)';
     } else if (isRecording) { /* ... state logic ... */
-        badgeStatus = 'success'; displayText = 'Listening...'; micIcon = <AudioMutedOutlined />; buttonDisabled = false; showProgress = true; micTooltip = 'Stop Recording';
-    } else if (isAISpeaking) { /* ... state logic ... */
-        badgeStatus = 'processing'; displayText = 'AI Speaking'; micIcon = <SoundOutlined />; buttonDisabled = true; micTooltip = 'AI Speaking';
+        badgeStatus = 'success'; displayText = 'Listening...'; micIcon = <AudioMutedOutlined />; buttonDisabled = false; showMeter = true; micTooltip = 'Stop Recording (Alt+M)';
     } else if (!isAIReady) { /* ... state logic ... */
         badgeStatus = 'warning'; displayText = 'Waiting for AI...'; micIcon = <LoadingOutlined />; buttonDisabled = true; micTooltip = 'AI Not Ready';
     } else { /* ... state logic ... */
-        badgeStatus = 'success'; displayText = 'Ready'; micIcon = <AudioOutlined />; buttonDisabled = false; micTooltip = 'Start Recording';
+        badgeStatus = 'success'; displayText = 'Ready'; micIcon = <AudioOutlined />; buttonDisabled = false; micTooltip = 'Start Recording (Alt+M)';
     }
 
    if (statusMessage && statusMessage !== 'AI Ready' && !isRecording && !isAISpeaking && !isConnecting && isConnected && isAIReady) { /* ... status override ... */
@@ -104,12 +143,22 @@ export const ControlBar: React.FC<Props> = ({
         },
         // micButtonSize: isMobile ? 'default' : 'large', // Smaller button on mobile
         micButtonSize: isMobile ? 'middle' : 'large', // Smaller button on mobile
-        progressSize: isMobile ? 16 : 20, // Smaller progress on mobile
+        meterWidth: isMobile ? 48 : 80, // Narrower meter on mobile
+        composer: {
+            ...baseStyles.composer,
+            minWidth: isMobile ? '100%' : '280px', // Own row on mobile
+        },
   };
+  // Typing only needs the socket, so it stays usable when the mic is denied
+  const textDisabled = isConnecting || !isConnected || !isAIReady;
+  const { level: inputLevel } = useAudioLevel(showMeter ? inputAnalyser : null);
 
   return (
     // Use wrap on the outer Space for responsiveness
     <Space style={baseStyles.container} align="center" wrap={isMobile}>
+        <div style={dynamicStyles.composer}>
+            <TextComposer onSend={onSendText} disabled={textDisabled} inputRef={textInputRef} />
+        </div>
         {/* Center Content: Mic Button and Status */}
         {/* Use another Space for items that should stay together */}
         <Space align="center" style={baseStyles.centerContent}>
@@ -125,6 +174,28 @@ export const ControlBar: React.FC<Props> = ({
               onClick={onMicClick}
               />
             </Tooltip>
+            {isConnected && isRecording && !isAISpeaking && (
+              <Tooltip title="Discard what you said">
+                <Button
+                  shape="circle"
+                  size={dynamicStyles.micButtonSize as 'small' | 'middle' | 'large' | undefined}
+                  icon={<DeleteOutlined />}
+                  onClick={onDiscardUtterance}
+                  aria-label="Discard what you said"
+                />
+              </Tooltip>
+            )}
+            {isConnected && canStopResponse && (
+              <Tooltip title="Stop the AI response">
+                <Button
+                  shape="circle"
+                  size={dynamicStyles.micButtonSize as 'small' | 'middle' | 'large' | undefined}
+                  icon={<StopOutlined />}
+                  onClick={onStopResponse}
+                  aria-label="Stop the AI response"
+                />
+              </Tooltip>
+            )}
             {/* Badge: Conditionally render text span based on mobile */}
             <Badge
                 status={badgeStatus}
@@ -132,8 +203,16 @@ export const ControlBar: React.FC<Props> = ({
             />
             {/* Tooltip for Badge text on mobile */}
             {isMobile && <Tooltip title={displayText}><span style={{marginLeft: '4px'}}>({badgeStatus === 'success' ? '✓' : badgeStatus === 'processing' ? '...' : '!'})</span></Tooltip> }
+            {isConnected && <ConnectionHealthIndicator health={health} showLatency={false} underruns={underruns} />}
+            {!isConnected && <ReconnectNotice reconnect={reconnect} onRetry={onRetryNow} compact={isMobile} />}
 
-            {showProgress && <Progress type="circle" percent={100} size={dynamicStyles.progressSize} format={() => ''} status="active" />}
+            {showMeter && <LevelMeter level={inputLevel} width={dynamicStyles.meterWidth} />}
+            {showMeter && inputLevel?.clipping && (
+                <Tooltip title="Your microphone is clipping. Move back or lower its gain.">
+                    <WarningOutlined style={{ color: 'var(--ant-color-error)' }} />
+                </Tooltip>
+            )}
+            <OutboundQueueIndicator heldMs={heldAudioMs} droppedMs={droppedAudioMs} />
         </Space>
     </Space>
   );
@@ -0,0 +1,188 @@
+// src/components/ConversationSidebar.tsx
+import React, { CSSProperties, useMemo, useRef, useState } from 'react';
+import { Alert, Button, Drawer, Input, List, Popconfirm, Space, Typography } from 'antd';
+import { DeleteOutlined, ImportOutlined, PlusOutlined } from '@ant-design/icons';
+import type { ConversationSummary, StorageUsage } from '../utils/conversationStore';
+import { importConversationJson } from '../utils/conversationExport';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  conversations: ConversationSummary[];
+  activeId: string | null;
+  storageUsage: StorageUsage | null;
+  error: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (title: string, messages: Message[]) => Promise<void>;
+  isMobile: boolean;
+}
+
+const styles = {
+  search: {
+    marginBottom: '12px',
+  } as CSSProperties,
+  item: {
+    cursor: 'pointer',
+    padding: '8px 12px',
+    borderRadius: 8,
+  } as CSSProperties,
+  activeItem: {
+    background: 'var(--ant-control-item-bg-active)',
+  } as CSSProperties,
+  title: {
+    margin: 0,
+    width: '100%',
+  } as CSSProperties,
+  meta: {
+    fontSize: '0.75rem',
+  } as CSSProperties,
+  footer: {
+    fontSize: '0.75rem',
+  } as CSSProperties,
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+export const ConversationSidebar: React.FC<Props> = ({
+  open,
+  onClose,
+  conversations,
+  activeId,
+  storageUsage,
+  error,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onImport,
+  isMobile,
+}) => {
+  const [query, setQuery] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow picking the same file again
+    if (!file) return;
+    setImportError(null);
+    try {
+      const { title, messages } = importConversationJson(await file.text());
+      await onImport(title, messages);
+    } catch (err) {
+      console.error('[ConversationSidebar] Import failed:', err);
+      setImportError(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return conversations;
+    return conversations.filter((c) => c.title.toLowerCase().includes(q) || c.searchText.includes(q));
+  }, [conversations, query]);
+
+  return (
+    <Drawer
+      title="Conversations"
+      placement="left"
+      open={open}
+      onClose={onClose}
+      width={isMobile ? '85%' : 360}
+      extra={
+        <Space size="small">
+          <Button size="small" icon={<ImportOutlined />} onClick={() => fileInputRef.current?.click()}>
+            Import
+          </Button>
+          <Button type="primary" size="small" icon={<PlusOutlined />} onClick={onNew}>
+            New
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            style={{ display: 'none' }}
+            onChange={handleImportFile}
+          />
+        </Space>
+      }
+      footer={
+        storageUsage && (
+          <Typography.Text type="secondary" style={styles.footer}>
+            {`Storage: ${formatBytes(storageUsage.usage)} of ${formatBytes(storageUsage.quota)} used`}
+          </Typography.Text>
+        )
+      }
+    >
+      {error && <Alert type="error" showIcon message={error} style={styles.search} />}
+      {importError && (
+        <Alert type="error" showIcon closable message={importError} onClose={() => setImportError(null)} style={styles.search} />
+      )}
+      <Input.Search
+        allowClear
+        placeholder="Search conversations"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        style={styles.search}
+      />
+      <List
+        dataSource={filtered}
+        locale={{ emptyText: query ? 'No matches' : 'No saved conversations yet' }}
+        renderItem={(c) => (
+          <List.Item
+            style={{ ...styles.item, ...(c.id === activeId ? styles.activeItem : {}) }}
+            onClick={() => onSelect(c.id)}
+            actions={[
+              <Popconfirm
+                key="delete"
+                title="Delete this conversation?"
+                description="Its text and audio will be removed from this browser."
+                okText="Delete"
+                okButtonProps={{ danger: true }}
+                onConfirm={(e) => {
+                  e?.stopPropagation();
+                  onDelete(c.id);
+                }}
+                onCancel={(e) => e?.stopPropagation()}
+              >
+                <Button
+                  type="text"
+                  size="small"
+                  danger
+                  icon={<DeleteOutlined />}
+                  onClick={(e) => e.stopPropagation()}
+                />
+              </Popconfirm>,
+            ]}
+          >
+            <List.Item.Meta
+              title={
+                <Typography.Paragraph
+                  style={styles.title}
+                  ellipsis={{ rows: 1 }}
+                  editable={{
+                    onChange: (title) => onRename(c.id, title),
+                    triggerType: ['icon'],
+                  }}
+                >
+                  {c.title}
+                </Typography.Paragraph>
+              }
+              description={
+                <Typography.Text type="secondary" style={styles.meta}>
+                  {`${c.messageCount} messages · ${new Date(c.updatedAt).toLocaleString()}`}
+                </Typography.Text>
+              }
+            />
+          </List.Item>
+        )}
+      />
+    </Drawer>
+  );
+};
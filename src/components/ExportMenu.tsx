@@ -0,0 +1,89 @@
+// src/components/ExportMenu.tsx
+import React from 'react';
+import { Button, Dropdown, MenuProps, Tooltip } from 'antd';
+import { ExportOutlined } from '@ant-design/icons';
+import {
+  COMPACT_MAX_GAP_SECONDS,
+  downloadBlob,
+  exportJson,
+  exportMarkdown,
+  exportSrt,
+  exportWav,
+  exportWebVtt,
+} from '../utils/conversationExport';
+import { TARGET_SAMPLE_RATE } from '../constants';
+
+interface Props {
+  title: string;
+  messages: Message[];
+  buttonStyle?: React.CSSProperties;
+}
+
+type ExportFormat = 'wav' | 'wav-realtime' | 'md' | 'json' | 'srt' | 'vtt';
+
+const items: MenuProps['items'] = [
+  { key: 'wav', label: `Audio (WAV, both speakers, pauses cut to ${COMPACT_MAX_GAP_SECONDS}s)` },
+  { key: 'wav-realtime', label: 'Audio (WAV, real pauses kept)' },
+  { key: 'md', label: 'Transcript (Markdown)' },
+  { key: 'json', label: 'Full conversation (JSON, re-importable)' },
+  { type: 'divider' },
+  { key: 'srt', label: 'Captions (SRT)' },
+  { key: 'vtt', label: 'Captions (WebVTT)' },
+];
+
+const fileBaseName = (title: string) =>
+  `${title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '_').slice(0, 60) || 'conversation'}_${Date.now()}`;
+
+export const ExportMenu: React.FC<Props> = ({ title, messages, buttonStyle }) => {
+  const handleExport = (format: ExportFormat) => {
+    const base = fileBaseName(title);
+    try {
+      switch (format) {
+        case 'wav':
+          downloadBlob(exportWav(messages, TARGET_SAMPLE_RATE), 'audio/wav', `${base}.wav`);
+          break;
+        case 'wav-realtime':
+          downloadBlob(
+            exportWav(messages, TARGET_SAMPLE_RATE, { maxGapSeconds: Infinity }),
+            'audio/wav',
+            `${base}.wav`
+          );
+          break;
+        case 'md':
+          downloadBlob(exportMarkdown(title, messages), 'text/markdown', `${base}.md`);
+          break;
+        case 'json':
+          downloadBlob(exportJson(title, messages), 'application/json', `${base}.json`);
+          break;
+        case 'srt':
+          downloadBlob(exportSrt(messages), 'application/x-subrip', `${base}.srt`);
+          break;
+        case 'vtt':
+          downloadBlob(exportWebVtt(messages), 'text/vtt', `${base}.vtt`);
+          break;
+      }
+      console.log(`Exported conversation as ${format}.`);
+    } catch (e) {
+      console.error('Export failed:', e);
+      alert(`Export failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  return (
+    <Dropdown
+      menu={{ items, onClick: ({ key }) => handleExport(key as ExportFormat) }}
+      trigger={['click']}
+      disabled={messages.length === 0}
+    >
+      <Tooltip title="Export Conversation">
+        <Button
+          type="text"
+          shape="circle"
+          icon={<ExportOutlined />}
+          style={buttonStyle}
+          disabled={messages.length === 0}
+        />
+      </Tooltip>
+    </Dropdown>
+  );
+};
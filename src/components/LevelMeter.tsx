@@ -0,0 +1,59 @@
+// src/components/LevelMeter.tsx
+import React, { CSSProperties } from 'react';
+import { Tooltip } from 'antd';
+import type { AudioLevel } from '../hooks/useAudioLevel';
+
+interface Props {
+  level: AudioLevel | null;
+  width: number;
+}
+
+// Bottom of the meter; speech usually sits between -40 and -10 dBFS
+const METER_FLOOR_DB = -60;
+
+const styles = {
+  track: {
+    height: 6,
+    borderRadius: 3,
+    background: 'var(--ant-color-fill-secondary)',
+    overflow: 'hidden',
+    position: 'relative',
+  } as CSSProperties,
+  fill: {
+    height: '100%',
+    borderRadius: 3,
+    transition: 'width 60ms linear',
+  } as CSSProperties,
+};
+
+const toFraction = (db: number) => Math.min(1, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+
+// Horizontal input meter: RMS as the bar, red while the signal is clipping
+export const LevelMeter: React.FC<Props> = ({ level, width }) => {
+  const fraction = level ? toFraction(level.rmsDb) : 0;
+  const color = level?.clipping
+    ? 'var(--ant-color-error)'
+    : fraction < 0.25
+      ? 'var(--ant-color-warning)'
+      : 'var(--ant-color-success)';
+  const title = level?.clipping
+    ? 'Input is clipping: move back from the mic or lower its gain'
+    : level
+      ? `Input level ${Math.round(level.rmsDb)} dBFS`
+      : 'No input';
+
+  return (
+    <Tooltip title={title}>
+      <div
+        style={{ ...styles.track, width }}
+        role="meter"
+        aria-label="Microphone level"
+        aria-valuemin={METER_FLOOR_DB}
+        aria-valuemax={0}
+        aria-valuenow={level ? Math.round(level.rmsDb) : METER_FLOOR_DB}
+      >
+        <div style={{ ...styles.fill, width: `${fraction * 100}%`, background: color }} />
+      </div>
+    </Tooltip>
+  );
+};
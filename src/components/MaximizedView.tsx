@@ -1,13 +1,23 @@
 // src/components/MaximizedView.tsx
-import React, { CSSProperties } from 'react';
-import { Button, Typography, Spin, Tooltip } from 'antd';
+import React, { CSSProperties, useEffect, useRef, useState } from 'react';
+import { Alert, Button, Typography, Spin, Tooltip, Switch, Space } from 'antd';
 import {
   AudioOutlined,
   SoundOutlined,
   LoadingOutlined,
   ApiOutlined,
+  DeleteOutlined,
+  StopOutlined,
   // DownCircleOutlined, // Removed
 } from '@ant-design/icons';
+import type { TextAreaRef } from 'antd/es/input/TextArea';
+import { TextComposer } from './TextComposer';
+import { AudioVisualizer } from './AudioVisualizer';
+import { OutboundQueueIndicator } from './OutboundQueueIndicator';
+import { ReconnectNotice } from './ReconnectNotice';
+import type { ReconnectState } from '../hooks/useWebSocket';
+import { useAudioLevel } from '../hooks/useAudioLevel';
+import { PUSH_TO_TALK_CANCEL_DISTANCE_PX } from '../constants';
 
 interface MaximizedViewProps {
   isRecording: boolean;
@@ -17,6 +27,23 @@ interface MaximizedViewProps {
   isAISpeaking: boolean;
   statusMessage: string | null;
   onMicClick: () => void;
+  liveTranscript: string; // partial transcript of what the user is saying
+  handsFree: boolean; // "always listening": the mic re-opens after the AI replies
+  onHandsFreeChange: (enabled: boolean) => void;
+  pushToTalkKey: string | null; // label of the talk key; null when push-to-talk is off
+  onTalkStart: () => void; // mic button pressed in push-to-talk mode
+  onTalkEnd: (cancel: boolean) => void; // released; cancel when slid away first
+  onDiscardUtterance: () => void; // drop the turn being recorded
+  onStopResponse: () => void; // abandon the AI reply
+  canStopResponse: boolean; // a reply is pending, arriving or playing
+  onSendText: (text: string) => boolean;
+  textInputRef?: React.Ref<TextAreaRef>;
+  inputAnalyser: AnalyserNode | null; // mic tap while recording
+  outputAnalyser: AnalyserNode | null; // tap on the AI voice
+  heldAudioMs: number; // audio queued while the backend is unreachable
+  droppedAudioMs: number;
+  reconnect: ReconnectState;
+  onRetryNow: () => void;
   // toggleMicMinimize: () => void; // Removed Prop
   error: string | null;
   isMobile: boolean; // Added Prop
@@ -57,6 +84,11 @@ const baseStyles = {
   micButtonRecording: {
     boxShadow: '0 6px 16px rgba(255, 82, 82, 0.3)',
   } as CSSProperties,
+  micButtonHold: {
+    touchAction: 'none', // the slide is ours, not a scroll
+    userSelect: 'none',
+    WebkitTouchCallout: 'none',
+  } as CSSProperties,
   primaryText: {
     marginTop: '25px', // Adjusted margin
     marginBottom: '8px', // Adjusted margin
@@ -75,6 +107,27 @@ const baseStyles = {
     fontStyle: 'italic',
   } as CSSProperties,
   aiSpeakingIconSpin: {} as CSSProperties,
+  handsFreeToggle: {
+    marginTop: '20px',
+    color: 'var(--ant-text-color-secondary)',
+  } as CSSProperties,
+  visualizer: {
+    marginTop: '16px',
+  } as CSSProperties,
+  clippingWarning: {
+    marginTop: '12px',
+  } as CSSProperties,
+  connectionNotice: {
+    marginTop: '12px',
+  } as CSSProperties,
+  turnActions: {
+    marginTop: '12px',
+  } as CSSProperties,
+  composer: {
+    marginTop: '20px',
+    width: '100%',
+    maxWidth: '420px',
+  } as CSSProperties,
 };
 
 const pulseKeyframes = `
@@ -89,9 +142,63 @@ export const MaximizedView: React.FC<MaximizedViewProps> = ({
   isAIReady,
   isAISpeaking,
   onMicClick,
+  liveTranscript,
+  handsFree,
+  onHandsFreeChange,
+  pushToTalkKey,
+  onTalkStart,
+  onTalkEnd,
+  onDiscardUtterance,
+  onStopResponse,
+  canStopResponse,
+  onSendText,
+  textInputRef,
+  inputAnalyser,
+  outputAnalyser,
+  heldAudioMs,
+  droppedAudioMs,
+  reconnect,
+  onRetryNow,
   isMobile,
   error,
 }) => {
+  // Push-to-talk: where the press started, and whether the finger has since
+  // moved far enough away that letting go discards the turn
+  const pressOrigin = useRef<{ x: number; y: number } | null>(null);
+  const [cancelArmed, setCancelArmed] = useState(false);
+  const pushToTalk = pushToTalkKey !== null;
+
+  useEffect(() => {
+    if (!isRecording) setCancelArmed(false);
+  }, [isRecording]);
+
+  const slidAway = (e: React.PointerEvent) => {
+    const origin = pressOrigin.current;
+    return !!origin && Math.hypot(e.clientX - origin.x, e.clientY - origin.y) > PUSH_TO_TALK_CANCEL_DISTANCE_PX;
+  };
+
+  const releaseHold = (cancel: boolean) => {
+    if (!pressOrigin.current) return;
+    pressOrigin.current = null;
+    setCancelArmed(false);
+    onTalkEnd(cancel);
+  };
+
+  const holdHandlers = {
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => {
+      if (e.button !== 0) return;
+      e.currentTarget.setPointerCapture(e.pointerId); // moves keep coming once the finger leaves the button
+      pressOrigin.current = { x: e.clientX, y: e.clientY };
+      onTalkStart();
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      if (pressOrigin.current) setCancelArmed(slidAway(e));
+    },
+    onPointerUp: (e: React.PointerEvent) => releaseHold(slidAway(e)),
+    onPointerCancel: () => releaseHold(true), // the browser took the gesture over
+    onContextMenu: (e: React.MouseEvent) => e.preventDefault(), // long press shouldn't open a menu
+  };
+
   // --- Logic to determine icon, text, state (keep as is) ---
   let icon: React.ReactNode = <AudioOutlined />;
   let primaryText: string = 'Tap the microphone to start speaking';
@@ -101,24 +208,36 @@ export const MaximizedView: React.FC<MaximizedViewProps> = ({
   let showPulseClass = false;
   let showSpinAroundIcon = false;
   let buttonDisabled = false;
-  let tooltipTitle = 'Start Recording';
+  let tooltipTitle = 'Start Recording (Alt+M)';
 //   const micIconStyle: CSSProperties = { fontSize: '64px' };
 
   if (isConnecting) { /* ... state logic ... */
     icon = <LoadingOutlined />; primaryText = 'Connecting...'; secondaryText = 'Please wait.'; buttonDisabled = true; tooltipTitle = 'Connecting...';
   } else if (error || !isConnected) { /* ... state logic ... */
     icon = <ApiOutlined style={{ color: 'red' }} />; primaryText = 'Connection Error'; secondaryText = error || 'Could not connect.'; buttonDisabled = true; tooltipTitle = 'Connection Error';
+  } else if (isAISpeaking && pushToTalk) { /* ... no barge-in monitoring while push-to-talk is on */
+    icon = <SoundOutlined />; primaryText = 'AI is speaking...'; secondaryText = `Hold the microphone or ${pushToTalkKey} to interrupt`; showSpinAroundIcon = true; buttonDisabled = false; tooltipTitle = `Hold to talk (${pushToTalkKey})`;
+  } else if (isAISpeaking) { /* ... state logic ... (mic may be open for barge-in) */
+    icon = <SoundOutlined />; primaryText = 'AI is speaking...'; secondaryText = 'Start talking or tap to interrupt'; showSpinAroundIcon = true; buttonDisabled = false; tooltipTitle = 'Interrupt AI (Alt+M)';
+  } else if (isRecording && pushToTalk) { /* ... held ... */
+    icon = <AudioOutlined />; primaryText = cancelArmed ? 'Release to cancel' : 'Listening...'; secondaryText = cancelArmed ? 'Your words will be discarded' : 'Release to send, or slide away to cancel'; buttonType = 'primary'; buttonDanger = true; showPulseClass = !cancelArmed; tooltipTitle = `Hold to talk (${pushToTalkKey})`;
   } else if (isRecording) { /* ... state logic ... */
-    icon = <AudioOutlined />; primaryText = 'Listening...'; secondaryText = 'Tap microphone to stop'; buttonType = 'primary'; buttonDanger = true; showPulseClass = true; tooltipTitle = 'Stop Recording';
-  } else if (isAISpeaking) { /* ... state logic ... */
-    icon = <SoundOutlined />; primaryText = 'AI is speaking...'; secondaryText = '\u00A0'; showSpinAroundIcon = true; buttonDisabled = true; tooltipTitle = 'AI Speaking';
+    icon = <AudioOutlined />; primaryText = 'Listening...'; secondaryText = 'Pause to send, or tap microphone to stop'; buttonType = 'primary'; buttonDanger = true; showPulseClass = true; tooltipTitle = 'Stop Recording (Alt+M)';
   } else if (!isAIReady) { /* ... state logic ... */
     icon = <LoadingOutlined />; primaryText = 'Waiting for AI service...'; secondaryText = 'Connected, AI initializing.'; buttonDisabled = true; tooltipTitle = 'AI Not Ready';
+  } else if (pushToTalk) { /* ... */
+    icon = <AudioOutlined />; primaryText = `Hold the microphone or ${pushToTalkKey} to talk`; secondaryText = 'Ready'; buttonDisabled = false; tooltipTitle = `Hold to talk (${pushToTalkKey})`;
   } else { /* ... state logic ... */
-    icon = <AudioOutlined />; primaryText = 'Tap microphone to start speaking'; secondaryText = 'Ready'; buttonDisabled = false; tooltipTitle = 'Start Recording';
+    icon = <AudioOutlined />; primaryText = 'Tap microphone to start speaking'; secondaryText = 'Ready'; buttonDisabled = false; tooltipTitle = 'Start Recording (Alt+M)';
   }
   // --- End logic ---
 
+  // The AI's voice wins while it talks (the mic may be open for barge-in)
+  const showingAI = isConnected && isAISpeaking;
+  const showingUser = isConnected && !isAISpeaking && isRecording;
+  const { getFrequencyData: getAIFrequencies } = useAudioLevel(showingAI ? outputAnalyser : null);
+  const { level: inputLevel, getFrequencyData: getUserFrequencies } = useAudioLevel(showingUser ? inputAnalyser : null);
+
 //   const micButtonStyle = {
 //     ...styles.micButtonBase,
 //     ...(isRecording ? styles.micButtonRecording : {}),
@@ -131,6 +250,7 @@ export const MaximizedView: React.FC<MaximizedViewProps> = ({
           width: isMobile ? '120px' : '160px', // Smaller button on mobile
           height: isMobile ? '120px' : '160px',
           ...(isRecording ? baseStyles.micButtonRecording : {}),
+          ...(pushToTalk ? baseStyles.micButtonHold : {}),
       },
       micIcon: {
           fontSize: isMobile ? '48px' : '64px', // Smaller icon on mobile
@@ -167,7 +287,7 @@ export const MaximizedView: React.FC<MaximizedViewProps> = ({
               })
             )
           }
-          onClick={onMicClick}
+          {...(pushToTalk ? holdHandlers : { onClick: onMicClick })}
         />
       </Tooltip>
 
@@ -175,12 +295,76 @@ export const MaximizedView: React.FC<MaximizedViewProps> = ({
         {primaryText}
       </Typography.Title>
       <Typography.Text style={dynamicStyles.secondaryText}>{secondaryText}</Typography.Text>
+      {isConnected && ((isRecording && !isAISpeaking && !pushToTalk) || canStopResponse) && (
+        <Space style={baseStyles.turnActions}>
+          {isRecording && !isAISpeaking && !pushToTalk && (
+            <Button icon={<DeleteOutlined />} onClick={onDiscardUtterance}>
+              Discard
+            </Button>
+          )}
+          {canStopResponse && (
+            <Button icon={<StopOutlined />} onClick={onStopResponse}>
+              Stop response
+            </Button>
+          )}
+        </Space>
+      )}
+      {!isConnected && (
+        <div style={baseStyles.connectionNotice}>
+          <ReconnectNotice reconnect={reconnect} onRetry={onRetryNow} compact={false} />
+        </div>
+      )}
+
+      {(showingAI || showingUser) && (
+        <div style={baseStyles.visualizer}>
+          <AudioVisualizer
+            getFrequencyData={showingAI ? getAIFrequencies : getUserFrequencies}
+            color={showingAI ? '#1677ff' : '#ff5252'}
+            width={isMobile ? 200 : 280}
+            height={isMobile ? 40 : 56}
+            label={showingAI ? 'AI voice visualiser' : 'Microphone visualiser'}
+          />
+        </div>
+      )}
+      {showingUser && inputLevel?.clipping && (
+        <Alert
+          type="warning"
+          showIcon
+          message="Your microphone is clipping. Move back a little or lower its input gain."
+          style={baseStyles.clippingWarning}
+        />
+      )}
 
-      {isRecording && (
+      {(heldAudioMs > 0 || droppedAudioMs > 0) && (
+        <div style={baseStyles.connectionNotice}>
+          <OutboundQueueIndicator heldMs={heldAudioMs} droppedMs={droppedAudioMs} />
+        </div>
+      )}
+
+      {(liveTranscript || (isRecording && !isAISpeaking)) && (
         <div style={baseStyles.liveTranscriptPlaceholder}>
-          <Typography.Text>(Listening...)</Typography.Text>
+          <Typography.Text>{liveTranscript ? `“${liveTranscript}”` : '(Listening...)'}</Typography.Text>
         </div>
       )}
+
+      <div style={baseStyles.composer}>
+        <TextComposer
+          compact
+          onSend={onSendText}
+          disabled={isConnecting || !isConnected || !isAIReady}
+          inputRef={textInputRef}
+        />
+      </div>
+
+      <Space style={baseStyles.handsFreeToggle}>
+        <Switch
+          size={isMobile ? 'small' : 'default'}
+          checked={handsFree}
+          onChange={onHandsFreeChange}
+          disabled={isConnecting}
+        />
+        <Typography.Text type="secondary">Hands-free</Typography.Text>
+      </Space>
     </div>
   );
 };
\ No newline at end of file
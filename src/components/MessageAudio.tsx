@@ -0,0 +1,110 @@
+// src/components/MessageAudio.tsx
+import React, { CSSProperties, useMemo } from 'react';
+import { Button } from 'antd';
+import { CaretRightOutlined, PauseOutlined } from '@ant-design/icons';
+import { computePeaks, pcmDuration } from '../utils/audio';
+
+interface Props {
+  audioBuffer: ArrayBuffer;
+  sampleRate: number;
+  isPlaying: boolean;
+  progress: number; // 0..1
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (fraction: number) => void;
+}
+
+const WAVEFORM_BARS = 48;
+const SEEK_STEP = 0.05; // arrow keys move 5%
+
+const styles = {
+  container: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 6,
+  } as CSSProperties,
+  waveform: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 1,
+    height: 28,
+    flexGrow: 1,
+    minWidth: 120,
+    cursor: 'pointer',
+  } as CSSProperties,
+  bar: {
+    flex: 1,
+    minHeight: 2,
+    borderRadius: 1,
+  } as CSSProperties,
+  time: {
+    fontSize: '0.7rem',
+    opacity: 0.75,
+    fontVariantNumeric: 'tabular-nums',
+    whiteSpace: 'nowrap',
+  } as CSSProperties,
+};
+
+const formatTime = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+// Play/pause button plus a waveform thumbnail that doubles as the seek bar
+export const MessageAudio: React.FC<Props> = ({ audioBuffer, sampleRate, isPlaying, progress, onPlay, onPause, onSeek }) => {
+  const peaks = useMemo(() => computePeaks(audioBuffer, WAVEFORM_BARS), [audioBuffer]);
+  const duration = pcmDuration(audioBuffer.byteLength, sampleRate);
+  const playedBars = Math.round(progress * WAVEFORM_BARS);
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek((e.clientX - rect.left) / rect.width);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowRight') onSeek(Math.min(1, progress + SEEK_STEP));
+    else if (e.key === 'ArrowLeft') onSeek(Math.max(0, progress - SEEK_STEP));
+    else return;
+    e.preventDefault();
+  };
+
+  return (
+    <div style={styles.container}>
+      <Button
+        size="small"
+        shape="circle"
+        icon={isPlaying ? <PauseOutlined /> : <CaretRightOutlined />}
+        onClick={isPlaying ? onPause : onPlay}
+        aria-label={isPlaying ? 'Pause' : 'Play'}
+      />
+      <div
+        style={styles.waveform}
+        role="slider"
+        tabIndex={0}
+        aria-label="Seek"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(duration)}
+        aria-valuenow={Math.round(progress * duration)}
+        onClick={handleClick}
+        onKeyDown={handleKeyDown}
+      >
+        {peaks.map((peak, i) => (
+          <div
+            key={i}
+            style={{
+              ...styles.bar,
+              height: `${Math.max(8, peak * 100)}%`,
+              background: 'currentColor',
+              opacity: i < playedBars ? 0.95 : 0.35,
+            }}
+          />
+        ))}
+      </div>
+      <span style={styles.time}>
+        {progress > 0 ? `${formatTime(progress * duration)} / ` : ''}
+        {formatTime(duration)}
+      </span>
+    </div>
+  );
+};
@@ -1,16 +1,24 @@
 import React, { useEffect, useRef } from 'react';
 import { Avatar, Typography } from 'antd';
+import { MessageAudio } from './MessageAudio';
+import { TARGET_SAMPLE_RATE } from '../constants';
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
 
 interface Props {
   messages: Message[];
   isMicMinimized: boolean;
+  onPlayMessage: (message: Message) => void;
+  onPauseMessage: () => void;
+  onSeekMessage: (message: Message, fraction: number) => void;
 }
 
-export const MessagesList: React.FC<Props> = ({ messages }) => {
+export const MessagesList: React.FC<Props> = ({ messages, onPlayMessage, onPauseMessage, onSeekMessage }) => {
   const endRef = useRef<HTMLDivElement>(null);
+  // Scroll on new messages only, not on every playback progress tick
   useEffect(() => {
     endRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages.length]);
 
   // Dynamically adjusting bubble styles for light and dark mode
   const bubbleStyles = {
@@ -65,6 +73,38 @@ export const MessagesList: React.FC<Props> = ({ messages }) => {
               }}
             >
               <Typography.Text>{msg.text}</Typography.Text>
+              {msg.interrupted && (
+                <Typography.Text
+                  type="secondary"
+                  style={{ display: 'block', fontSize: '0.75rem', fontStyle: 'italic', marginTop: 4 }}
+                >
+                  {`${msg.cancelled ? 'Stopped' : 'Interrupted'} after ${formatSeconds(msg.interrupted.playedMs)} of ${formatSeconds(msg.interrupted.receivedMs)}`}
+                </Typography.Text>
+              )}
+              {msg.incomplete && (
+                <Typography.Text
+                  type="secondary"
+                  style={{ display: 'block', fontSize: '0.75rem', fontStyle: 'italic', marginTop: 4 }}
+                >
+                  Connection lost before the reply finished
+                </Typography.Text>
+              )}
+              {msg.audioBuffer && msg.audioBuffer.byteLength > 0 && (
+                <MessageAudio
+                  audioBuffer={msg.audioBuffer}
+                  sampleRate={msg.sampleRate ?? TARGET_SAMPLE_RATE}
+                  isPlaying={!!msg.isPlaying}
+                  progress={msg.playbackProgress ?? 0}
+                  onPlay={() => onPlayMessage(msg)}
+                  onPause={onPauseMessage}
+                  onSeek={(fraction) => onSeekMessage(msg, fraction)}
+                />
+              )}
+              {msg.audioEvicted && (
+                <Typography.Text type="secondary" style={{ display: 'block', fontSize: '0.75rem', marginTop: 4 }}>
+                  Audio removed to save space
+                </Typography.Text>
+              )}
               <Typography.Text
                 type="secondary"
                 style={{ display: 'block', fontSize: '0.75rem', marginTop: 4 }}
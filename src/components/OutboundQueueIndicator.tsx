@@ -0,0 +1,39 @@
+// src/components/OutboundQueueIndicator.tsx
+import React, { useState } from 'react';
+import { Tag, Tooltip } from 'antd';
+import { ClockCircleOutlined, WarningOutlined } from '@ant-design/icons';
+
+interface Props {
+  heldMs: number; // audio waiting for the connection
+  droppedMs: number; // audio discarded since the queue started holding
+}
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+
+// Shows audio held back while the backend is unreachable, and what had to be
+// thrown away to stay within the queue's limits
+export const OutboundQueueIndicator: React.FC<Props> = ({ heldMs, droppedMs }) => {
+  // dismissing the discard notice only hides what was discarded so far
+  const [dismissedMs, setDismissedMs] = useState(0);
+  const showDropped = droppedMs > 0 && droppedMs !== dismissedMs;
+
+  if (heldMs > 0) {
+    return (
+      <Tooltip
+        title={`Your audio is held until the connection is back.${droppedMs > 0 ? ` ${seconds(droppedMs)} was discarded to stay within the limit.` : ''}`}
+      >
+        <Tag icon={<ClockCircleOutlined />} color={droppedMs > 0 ? 'error' : 'warning'}>
+          {`Holding ${seconds(heldMs)}`}
+        </Tag>
+      </Tooltip>
+    );
+  }
+  if (!showDropped) return null;
+  return (
+    <Tooltip title="The connection was down too long, so the oldest audio was not sent.">
+      <Tag icon={<WarningOutlined />} color="error" closable onClose={() => setDismissedMs(droppedMs)}>
+        {`${seconds(droppedMs)} of audio discarded`}
+      </Tag>
+    </Tooltip>
+  );
+};
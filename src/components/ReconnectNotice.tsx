@@ -0,0 +1,43 @@
+// src/components/ReconnectNotice.tsx
+import React, { useEffect, useState } from 'react';
+import { Button, Space, Typography } from 'antd';
+import { DisconnectOutlined, ReloadOutlined } from '@ant-design/icons';
+import type { ReconnectState } from '../hooks/useWebSocket';
+
+interface Props {
+  reconnect: ReconnectState;
+  onRetry: () => void;
+  compact: boolean; // icon-only button
+}
+
+// Countdown to the next automatic retry (or why there isn't one) with a way
+// to skip the wait. Renders nothing while no reconnect is pending.
+export const ReconnectNotice: React.FC<Props> = ({ reconnect, onRetry, compact }) => {
+  const { nextAttemptAt, gaveUp, offline } = reconnect;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (nextAttemptAt === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [nextAttemptAt]);
+
+  let text: string;
+  if (offline) text = 'Offline. Waiting for the network…';
+  else if (gaveUp) text = 'Could not reconnect.';
+  else if (nextAttemptAt !== null) text = `Reconnecting in ${Math.max(1, Math.ceil((nextAttemptAt - now) / 1000))}s…`;
+  else return null;
+
+  return (
+    <Space size={4} role="status">
+      <Typography.Text type={gaveUp ? 'danger' : 'secondary'} style={{ fontSize: '0.85rem' }}>
+        <DisconnectOutlined style={{ marginRight: 4 }} />
+        {text}
+      </Typography.Text>
+      <Button size="small" type="link" icon={<ReloadOutlined />} onClick={onRetry} aria-label="Retry now">
+        {compact ? null : 'Retry now'}
+      </Button>
+    </Space>
+  );
+};
@@ -0,0 +1,343 @@
+// src/components/SettingsDrawer.tsx
+import React, { CSSProperties, useEffect, useState } from 'react';
+import { Alert, Button, Drawer, Divider, List, Popconfirm, Select, Slider, Switch, Tag, Typography } from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined } from '@ant-design/icons';
+import { useMediaDevices } from '../hooks/useMediaDevices';
+import {
+  describeKeyCode,
+  isUsablePushToTalkKey,
+  MicrophoneSettings,
+  OutputSettings,
+  PLAYBACK_RATE_MAX,
+  PLAYBACK_RATE_MIN,
+  PushToTalkSettings,
+  supportsOutputSelection,
+} from '../utils/audioSettings';
+import { ConnectionProfile, createDefaultProfile, newProfileId } from '../utils/connectionProfiles';
+import { ConnectionProfileModal } from './ConnectionProfileModal';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  microphone: MicrophoneSettings;
+  onMicrophoneChange: (settings: MicrophoneSettings) => void;
+  output: OutputSettings;
+  onOutputChange: (settings: OutputSettings) => void;
+  pushToTalk: PushToTalkSettings;
+  onPushToTalkChange: (settings: PushToTalkSettings) => void;
+  profiles: ConnectionProfile[];
+  activeProfileId: string;
+  onSaveProfile: (profile: ConnectionProfile) => void;
+  onDeleteProfile: (id: string) => void;
+  isMobile: boolean;
+}
+
+const styles = {
+  field: {
+    marginBottom: '16px',
+  } as CSSProperties,
+  label: {
+    display: 'block',
+    marginBottom: '6px',
+  } as CSSProperties,
+  toggle: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 12,
+    marginBottom: '14px',
+  } as CSSProperties,
+  hint: {
+    fontSize: '0.75rem',
+  } as CSSProperties,
+};
+
+const PROCESSING_TOGGLES: { key: keyof Omit<MicrophoneSettings, 'deviceId'>; label: string; hint: string }[] = [
+  {
+    key: 'echoCancellation',
+    label: 'Echo cancellation',
+    hint: 'Removes the AI voice from the mic. Interrupting the AI by talking is disabled without it.',
+  },
+  {
+    key: 'noiseSuppression',
+    label: 'Noise suppression',
+    hint: 'Filters steady background noise such as fans.',
+  },
+  {
+    key: 'autoGainControl',
+    label: 'Automatic gain',
+    hint: 'Evens out your volume. Turn off if your level pumps up and down.',
+  },
+];
+
+const RATE_MARKS = { 0.75: '0.75×', 1: '1×', 1.5: '1.5×', 2: '2×' };
+
+const canSelectOutput = supportsOutputSelection();
+
+export const SettingsDrawer: React.FC<Props> = ({
+  open,
+  onClose,
+  microphone,
+  onMicrophoneChange,
+  output,
+  onOutputChange,
+  pushToTalk,
+  onPushToTalkChange,
+  profiles,
+  activeProfileId,
+  onSaveProfile,
+  onDeleteProfile,
+  isMobile,
+}) => {
+  const { inputs, outputs, hasLabels, refresh } = useMediaDevices();
+  const [editing, setEditing] = useState<{ profile: ConnectionProfile; isNew: boolean } | null>(null);
+  const [capturingKey, setCapturingKey] = useState(false);
+  const [rejectedKey, setRejectedKey] = useState<string | null>(null);
+
+  // labels may have become visible since the last look (permission granted)
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  // The next key pressed becomes the talk key; Escape gives up. Captured
+  // before the app's own shortcuts see it.
+  useEffect(() => {
+    if (!capturingKey) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code === 'Escape') {
+        setCapturingKey(false);
+      } else if (isUsablePushToTalkKey(e.code)) {
+        setCapturingKey(false);
+        setRejectedKey(null);
+        onPushToTalkChange({ ...pushToTalk, key: e.code });
+        // otherwise releasing Space or Enter "clicks" the focused button again
+        (document.activeElement as HTMLElement | null)?.blur();
+      } else {
+        setRejectedKey(e.code);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [capturingKey, pushToTalk, onPushToTalkChange]);
+
+  useEffect(() => {
+    if (!open) setCapturingKey(false);
+  }, [open]);
+
+  const selectedMissing = !!microphone.deviceId && inputs.length > 0 && !inputs.some((d) => d.deviceId === microphone.deviceId);
+
+  const deviceOptions = [
+    { value: '', label: 'System default' },
+    ...inputs.map((d, i) => ({ value: d.deviceId, label: d.label || `Microphone ${i + 1}` })),
+    ...(selectedMissing ? [{ value: microphone.deviceId, label: 'Saved microphone (not connected)' }] : []),
+  ];
+
+  const outputMissing = !!output.deviceId && outputs.length > 0 && !outputs.some((d) => d.deviceId === output.deviceId);
+  const outputOptions = [
+    { value: '', label: 'System default' },
+    ...outputs.map((d, i) => ({ value: d.deviceId, label: d.label || `Speaker ${i + 1}` })),
+    ...(outputMissing ? [{ value: output.deviceId, label: 'Saved speaker (not connected)' }] : []),
+  ];
+
+  return (
+    <Drawer title="Settings" placement="right" open={open} onClose={onClose} width={isMobile ? '85%' : 360}>
+      <Divider orientation="left" plain style={{ marginTop: 0 }}>
+        Connection profiles
+      </Divider>
+
+      <List
+        size="small"
+        dataSource={profiles}
+        style={styles.field}
+        renderItem={(p) => (
+          <List.Item
+            actions={[
+              <Button
+                key="edit"
+                type="text"
+                size="small"
+                icon={<EditOutlined />}
+                aria-label={`Edit ${p.name}`}
+                onClick={() => setEditing({ profile: p, isNew: false })}
+              />,
+              <Popconfirm
+                key="delete"
+                title={`Delete "${p.name}"?`}
+                okText="Delete"
+                okButtonProps={{ danger: true }}
+                onConfirm={() => onDeleteProfile(p.id)}
+              >
+                <Button type="text" size="small" danger icon={<DeleteOutlined />} aria-label={`Delete ${p.name}`} />
+              </Popconfirm>,
+            ]}
+          >
+            <List.Item.Meta
+              title={
+                <>
+                  {p.name} {p.id === activeProfileId && <Tag color="blue">Active</Tag>}
+                </>
+              }
+              description={
+                <Typography.Text type="secondary" style={styles.hint} ellipsis>
+                  {`${p.url} · ${p.sampleRate} Hz`}
+                </Typography.Text>
+              }
+            />
+          </List.Item>
+        )}
+      />
+      <Button
+        block
+        icon={<PlusOutlined />}
+        style={styles.field}
+        onClick={() => setEditing({ profile: { ...createDefaultProfile(), id: newProfileId(), name: '' }, isNew: true })}
+      >
+        Add profile
+      </Button>
+
+      <ConnectionProfileModal
+        profile={editing?.profile ?? null}
+        isNew={!!editing?.isNew}
+        onSave={(profile) => {
+          onSaveProfile(profile);
+          setEditing(null);
+        }}
+        onCancel={() => setEditing(null)}
+      />
+
+      <Divider orientation="left" plain>
+        Microphone
+      </Divider>
+
+      <div style={styles.field}>
+        <Typography.Text style={styles.label}>Input device</Typography.Text>
+        <Select
+          style={{ width: '100%' }}
+          value={microphone.deviceId}
+          options={deviceOptions}
+          onChange={(deviceId: string) => onMicrophoneChange({ ...microphone, deviceId })}
+        />
+        {!hasLabels && inputs.length > 0 && (
+          <Typography.Text type="secondary" style={styles.hint}>
+            Device names appear once microphone access has been granted.
+          </Typography.Text>
+        )}
+      </div>
+
+      {selectedMissing && (
+        <Alert
+          type="warning"
+          showIcon
+          message="The saved microphone isn't connected. The system default is used until it's back."
+          style={styles.field}
+        />
+      )}
+
+      {PROCESSING_TOGGLES.map(({ key, label, hint }) => (
+        <div key={key} style={styles.toggle}>
+          <div>
+            <Typography.Text>{label}</Typography.Text>
+            <br />
+            <Typography.Text type="secondary" style={styles.hint}>
+              {hint}
+            </Typography.Text>
+          </div>
+          <Switch checked={microphone[key]} onChange={(checked) => onMicrophoneChange({ ...microphone, [key]: checked })} />
+        </div>
+      ))}
+
+      <Typography.Text type="secondary" style={styles.hint}>
+        Changes apply the next time the microphone opens.
+      </Typography.Text>
+
+      <Divider orientation="left" plain>
+        Push-to-talk
+      </Divider>
+
+      <div style={styles.toggle}>
+        <div>
+          <Typography.Text>Hold to talk</Typography.Text>
+          <br />
+          <Typography.Text type="secondary" style={styles.hint}>
+            Records only while the talk key or the big mic button is held. Slide off the button to discard. Turns hands-free off.
+          </Typography.Text>
+        </div>
+        <Switch checked={pushToTalk.enabled} onChange={(enabled) => onPushToTalkChange({ ...pushToTalk, enabled })} />
+      </div>
+
+      <div style={styles.field}>
+        <Typography.Text style={styles.label}>Talk key</Typography.Text>
+        <Button
+          block
+          type={capturingKey ? 'primary' : 'default'}
+          onClick={() => {
+            setRejectedKey(null);
+            setCapturingKey((c) => !c);
+          }}
+        >
+          {capturingKey ? 'Press a key… (Esc to cancel)' : describeKeyCode(pushToTalk.key)}
+        </Button>
+        {capturingKey && rejectedKey && (
+          <Typography.Text type="warning" style={styles.hint}>
+            {`${describeKeyCode(rejectedKey)} is already used. Pick another key.`}
+          </Typography.Text>
+        )}
+      </div>
+
+      <Divider orientation="left" plain>
+        AI voice
+      </Divider>
+
+      <div style={styles.field}>
+        <Typography.Text style={styles.label}>Output device</Typography.Text>
+        <Select
+          style={{ width: '100%' }}
+          value={canSelectOutput ? output.deviceId : ''}
+          options={outputOptions}
+          disabled={!canSelectOutput}
+          onChange={(deviceId: string) => onOutputChange({ ...output, deviceId })}
+        />
+        {!canSelectOutput && (
+          <Typography.Text type="secondary" style={styles.hint}>
+            This browser always plays through the system default output.
+          </Typography.Text>
+        )}
+        {canSelectOutput && outputMissing && (
+          <Typography.Text type="warning" style={styles.hint}>
+            The saved speaker isn't connected; the system default is used.
+          </Typography.Text>
+        )}
+      </div>
+
+      <div style={styles.field}>
+        <Typography.Text style={styles.label}>Volume</Typography.Text>
+        <Slider
+          min={0}
+          max={1}
+          step={0.05}
+          value={output.volume}
+          tooltip={{ formatter: (v) => `${Math.round((v ?? 0) * 100)}%` }}
+          onChange={(volume: number) => onOutputChange({ ...output, volume })}
+        />
+      </div>
+
+      <div style={styles.field}>
+        <Typography.Text style={styles.label}>Playback speed</Typography.Text>
+        <Slider
+          min={PLAYBACK_RATE_MIN}
+          max={PLAYBACK_RATE_MAX}
+          step={0.25}
+          marks={RATE_MARKS}
+          value={output.playbackRate}
+          tooltip={{ formatter: (v) => `${v}×` }}
+          onChange={(playbackRate: number) => onOutputChange({ ...output, playbackRate })}
+        />
+        <Typography.Text type="secondary" style={styles.hint}>
+          Also applies to replays. Pitch changes with speed. Live speech switches at the next response.
+        </Typography.Text>
+      </div>
+    </Drawer>
+  );
+};
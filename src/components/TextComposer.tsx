@@ -0,0 +1,68 @@
+// src/components/TextComposer.tsx
+import React, { CSSProperties, useState } from 'react';
+import { Button, Input, Tooltip } from 'antd';
+import type { TextAreaRef } from 'antd/es/input/TextArea';
+import { SendOutlined } from '@ant-design/icons';
+
+interface Props {
+  onSend: (text: string) => boolean; // false keeps the draft (e.g. not connected)
+  disabled: boolean;
+  compact?: boolean; // single line, for the maximized view
+  inputRef?: React.Ref<TextAreaRef>;
+}
+
+const styles = {
+  container: {
+    display: 'flex',
+    alignItems: 'flex-end',
+    gap: 8,
+    width: '100%',
+  } as CSSProperties,
+  input: {
+    flexGrow: 1,
+  } as CSSProperties,
+};
+
+// Typed fallback for when speaking isn't an option.
+// Enter sends, Shift+Enter inserts a newline.
+export const TextComposer: React.FC<Props> = ({ onSend, disabled, compact = false, inputRef }) => {
+  const [draft, setDraft] = useState('');
+
+  const send = () => {
+    const text = draft.trim();
+    if (!text || disabled) return;
+    if (onSend(text)) setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Enter' || e.shiftKey || e.nativeEvent.isComposing) return;
+    e.preventDefault();
+    send();
+  };
+
+  return (
+    <div style={styles.container}>
+      <Input.TextArea
+        ref={inputRef}
+        style={styles.input}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={compact ? 'Or type a message…' : 'Type a message (Enter to send, / to focus)'}
+        autoSize={{ minRows: 1, maxRows: compact ? 1 : 4 }}
+        disabled={disabled}
+        aria-label="Message"
+      />
+      <Tooltip title="Send (Enter)">
+        <Button
+          type="primary"
+          shape="circle"
+          icon={<SendOutlined />}
+          onClick={send}
+          disabled={disabled || !draft.trim()}
+          aria-label="Send"
+        />
+      </Tooltip>
+    </div>
+  );
+};
@@ -1,4 +1,74 @@
 // constants.ts
+import type { VadOptions } from './utils/vad';
+import type { ResamplerQuality } from './utils/resampler';
+
 export const BACKEND_WS_URL =
   import.meta.env.VITE_BACKEND_WS_URL || 'ws://localhost:8080';
 export const TARGET_SAMPLE_RATE = 24000;
+
+// Capture worklet: processor name registered by worklets/pcmCaptureProcessor.ts
+// and the size of each PCM frame it posts back to useAudioRecorder.
+export const CAPTURE_PROCESSOR_NAME = 'pcm-capture-processor';
+export const CAPTURE_FRAME_MS = 100;
+// Filter length used to bring the mic to the wire rate; 'high' costs about
+// twice the CPU of 'medium' for a sharper cutoff
+export const CAPTURE_RESAMPLER_QUALITY: ResamplerQuality = 'medium';
+
+// Streaming playback: audio held back before the first chunk of a response
+// starts (and again after an underrun) to absorb network jitter.
+export const PLAYBACK_JITTER_MS = 120;
+
+// Barge-in: while the AI talks the mic is monitored with a stricter VAD so
+// residual echo doesn't cut the reply off. Audio from just before speech was
+// confirmed is kept so the start of the user's sentence isn't lost.
+export const BARGE_IN_VAD_OPTIONS: Partial<VadOptions> = {
+  energyThresholdDb: -35,
+  minSpeechMs: 200,
+};
+export const BARGE_IN_PREROLL_MS = 400;
+
+// Push-to-talk: sliding a finger this far off the held mic button turns the
+// release into "discard" instead of "send".
+export const PUSH_TO_TALK_CANCEL_DISTANCE_PX = 80;
+
+// Level meters and visualisers: analyser taps on the mic and the output chain.
+// A peak this close to full scale counts as clipping, and the warning stays
+// up for a moment so it can actually be read.
+export const ANALYSER_FFT_SIZE = 1024;
+export const LEVEL_UPDATE_MS = 66;
+export const CLIPPING_THRESHOLD = 0.99;
+export const CLIPPING_HOLD_MS = 1500;
+
+// Auth: refreshable credentials are renewed this long before they expire, and
+// a failed renewal is retried on this interval until the token runs out.
+export const AUTH_REFRESH_MARGIN_MS = 30_000;
+export const AUTH_REFRESH_RETRY_MS = 5_000;
+
+// Session resumption: how often received frames are acked to the server
+export const SESSION_ACK_INTERVAL_MS = 1000;
+
+// Outbound queue: audio captured while the socket is down (or not yet ready)
+// is held and sent on reconnect, up to 10 s of it (whatever the codec) and no
+// older than 15 s. Above the high-water mark of the socket's own buffer frames wait in
+// the queue too, rather than piling up unseen inside the browser.
+export const OUTBOUND_QUEUE_MAX_AUDIO_MS = 10_000;
+export const OUTBOUND_QUEUE_MAX_AGE_MS = 15_000;
+export const OUTBOUND_HIGH_WATER_BYTES = 256 * 1024;
+export const OUTBOUND_DRAIN_POLL_MS = 50;
+
+// Heartbeat: a ping goes out on this interval. Once the server has answered
+// one, no pong for HEARTBEAT_TIMEOUT_MS counts as a dead connection and forces
+// a reconnect. Quality comes from the rolling average round trip.
+export const HEARTBEAT_INTERVAL_MS = 5000;
+export const HEARTBEAT_TIMEOUT_MS = 12_000;
+export const HEARTBEAT_LATENCY_SAMPLES = 6;
+export const LATENCY_GOOD_MS = 250;
+export const LATENCY_DEGRADED_MS = 800;
+
+// Reconnect policy defaults (see ReconnectPolicy in hooks/useWebSocket.ts)
+export const RECONNECT_MAX_ATTEMPTS = 8;
+export const RECONNECT_BASE_DELAY_MS = 1000;
+export const RECONNECT_MAX_DELAY_MS = 30_000;
+
+// Opus uplink bitrate; speech stays intelligible well below this
+export const OPUS_BITRATE = 24_000;
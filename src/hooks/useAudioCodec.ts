@@ -0,0 +1,186 @@
+// hooks/useAudioCodec.ts
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AudioCodec, encodeClientMessage, parseServerMessage } from '../protocol';
+import { pcmDuration } from '../utils/audio';
+import {
+  AudioDecoderLike,
+  AudioEncoderLike,
+  createAudioDecoder,
+  createAudioEncoder,
+  detectCodecs,
+} from '../utils/audioCodec';
+import type { SendOptions } from './useWebSocket';
+
+type Send = (data: string | ArrayBuffer | Blob, options?: SendOptions) => void;
+
+export interface UseAudioCodecReturn {
+  offeredCodecs: AudioCodec[]; // for hello, preferred first
+  activeCodec: AudioCodec; // what the server picked
+  sendAudio: (pcm: ArrayBuffer) => void; // PCM16 at the wire rate in, frames out
+  flushAudio: () => Promise<void>; // resolves once everything captured so far is sent
+  handleMessage: (evt: MessageEvent) => void; // decodes audio, then hands frames on in order
+  beginNegotiation: () => void; // call on open; helloAck settles it
+}
+
+// Sits between the socket and the PCM-only recorder/player: encodes the
+// uplink and decodes the downlink with whatever codec the handshake settled
+// on. Falls back to PCM16 (and tells the server) if WebCodecs fails.
+export function useAudioCodec(
+  preferOpus: boolean,
+  sampleRate: number,
+  sendMessage: Send,
+  onMessage: (evt: MessageEvent) => void,
+  onFallback: (reason: string) => void
+): UseAudioCodecReturn {
+  const [supported, setSupported] = useState<AudioCodec[]>(['pcm16']);
+  const [activeCodec, setActiveCodec] = useState<AudioCodec>('pcm16');
+  const codecRef = useRef<AudioCodec>('pcm16');
+  const encoder = useRef<AudioEncoderLike | null>(null);
+  const decoder = useRef<AudioDecoderLike | null>(null);
+  const negotiating = useRef(false);
+  // frames wait here while audio ahead of them is still decoding
+  const pipeline = useRef<Promise<void>>(Promise.resolve());
+  const pending = useRef(0);
+
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+  const onFallbackRef = useRef(onFallback);
+  onFallbackRef.current = onFallback;
+  const sendRef = useRef(sendMessage);
+  sendRef.current = sendMessage;
+
+  useEffect(() => {
+    let cancelled = false;
+    detectCodecs(sampleRate).then((codecs) => {
+      if (!cancelled) setSupported(codecs);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sampleRate]);
+
+  const offeredCodecs = useMemo<AudioCodec[]>(() => (preferOpus ? supported : ['pcm16']), [preferOpus, supported]);
+
+  const closeCodecs = () => {
+    encoder.current?.close();
+    decoder.current?.close();
+    encoder.current = null;
+    decoder.current = null;
+  };
+
+  const fallBack = useRef<(reason: string) => void>(() => {});
+
+  const activate = useCallback((codec: AudioCodec) => {
+    if (codec === codecRef.current && (codec === 'pcm16' || encoder.current)) return;
+    closeCodecs();
+    codecRef.current = codec;
+    setActiveCodec(codec);
+    if (codec === 'pcm16') return;
+    const onError = (e: Error) => fallBack.current(`Opus failed (${e.message})`);
+    try {
+      encoder.current = createAudioEncoder(
+        codec,
+        sampleRate,
+        (frame, durationMs) => sendRef.current(frame, { queue: true, durationMs }),
+        onError
+      );
+      decoder.current = createAudioDecoder(codec, sampleRate, onError);
+      console.log(`[useAudioCodec] using ${codec}`);
+    } catch (e) {
+      onError(e instanceof Error ? e : new Error(String(e)));
+    }
+  }, [sampleRate]);
+
+  fallBack.current = (reason: string) => {
+    if (codecRef.current === 'pcm16') return;
+    console.warn(`[useAudioCodec] ${reason}; falling back to PCM16`);
+    activate('pcm16');
+    sendRef.current(encodeClientMessage({ type: 'codec', codec: 'pcm16' }));
+    onFallbackRef.current(reason);
+  };
+
+  // the wire rate is part of the codec configuration
+  useEffect(() => {
+    if (codecRef.current !== 'pcm16') {
+      closeCodecs();
+      codecRef.current = 'pcm16';
+      setActiveCodec('pcm16');
+    }
+  }, [sampleRate]);
+
+  useEffect(() => closeCodecs, []);
+
+  const beginNegotiation = useCallback(() => {
+    negotiating.current = true;
+  }, []);
+
+  const sendAudio = useCallback((pcm: ArrayBuffer) => {
+    if (encoder.current) encoder.current.encode(pcm);
+    else sendRef.current(pcm, { queue: true, durationMs: pcmDuration(pcm.byteLength, sampleRate) * 1000 });
+  }, [sampleRate]);
+
+  const flushAudio = useCallback(() => encoder.current?.flush().catch(() => {}) ?? Promise.resolve(), []);
+
+  const handleMessage = useCallback((evt: MessageEvent) => {
+    if (typeof evt.data === 'string' && negotiating.current) {
+      // the codec applies to every frame after helloAck; a server that skips
+      // helloAck and goes straight to AIConnected only speaks PCM16
+      if (evt.data.includes('"helloAck"')) {
+        const result = parseServerMessage(evt.data);
+        if (result.ok && result.message.type === 'helloAck') {
+          negotiating.current = false;
+          const picked = result.message.codec ?? 'pcm16';
+          activate(supported.includes(picked) ? picked : 'pcm16');
+        }
+      } else if (evt.data.includes('"AIConnected"')) {
+        negotiating.current = false;
+        activate('pcm16');
+      }
+    }
+
+    const binary = evt.data instanceof ArrayBuffer;
+    const activeDecoder = decoder.current;
+    // end of a reply: whatever the decoder still holds comes out before the event
+    const streamEnd = !binary && !!activeDecoder && typeof evt.data === 'string' && evt.data.includes('"AIResponseEnd"');
+    if (!binary && !streamEnd && pending.current === 0) {
+      onMessageRef.current(evt); // nothing decoding ahead of it
+      return;
+    }
+    if (binary && !activeDecoder && pending.current === 0) {
+      onMessageRef.current(evt);
+      return;
+    }
+
+    pending.current += 1;
+    // a failure fails every frame still decoding; each one still goes on,
+    // empty, so the frame count the session acks by stays right
+    const failed = (e: unknown) => {
+      fallBack.current(`Opus decode failed (${e instanceof Error ? e.message : e})`);
+      return new ArrayBuffer(0);
+    };
+    // handed to the decoder on arrival, so it decodes continuously; the
+    // pipeline only keeps the results in order
+    const decoded = activeDecoder && binary ? activeDecoder.decode(evt.data).catch(failed) : null;
+    const flushed = activeDecoder && streamEnd ? activeDecoder.flush().catch(failed) : null;
+    pipeline.current = pipeline.current
+      .then(async () => {
+        if (decoded) {
+          onMessageRef.current(new MessageEvent('message', { data: await decoded }));
+          return;
+        }
+        if (flushed) await flushed;
+        onMessageRef.current(evt);
+      })
+      .catch((e) => {
+        console.error('[useAudioCodec] Frame handler failed:', e);
+      })
+      .finally(() => {
+        pending.current -= 1;
+      });
+  }, [activate, supported]);
+
+  return useMemo(
+    () => ({ offeredCodecs, activeCodec, sendAudio, flushAudio, handleMessage, beginNegotiation }),
+    [offeredCodecs, activeCodec, sendAudio, flushAudio, handleMessage, beginNegotiation]
+  );
+}
@@ -0,0 +1,71 @@
+// hooks/useAudioLevel.ts
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { amplitudeToDb, measureLevel } from '../utils/audio';
+import { ANALYSER_FFT_SIZE, CLIPPING_HOLD_MS, CLIPPING_THRESHOLD, LEVEL_UPDATE_MS } from '../constants';
+
+export interface AudioLevel {
+  rms: number; // 0..1
+  peak: number; // 0..1
+  rmsDb: number; // dBFS
+  peakDb: number; // dBFS
+  clipping: boolean; // hit full scale within the last CLIPPING_HOLD_MS
+}
+
+interface UseAudioLevelReturn {
+  level: AudioLevel | null; // null without an analyser
+  // Fills and returns a shared buffer; meant to be called once per animation frame
+  getFrequencyData: () => Uint8Array | null;
+}
+
+// Analyser tap used by the recorder and player graphs
+export function createLevelAnalyser(ctx: BaseAudioContext): AnalyserNode {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = ANALYSER_FFT_SIZE;
+  analyser.smoothingTimeConstant = 0.7;
+  return analyser;
+}
+
+// Polls an AnalyserNode on animation frames. Levels go through state at
+// LEVEL_UPDATE_MS so meters don't re-render 60 times a second.
+export function useAudioLevel(analyser: AnalyserNode | null): UseAudioLevelReturn {
+  const [level, setLevel] = useState<AudioLevel | null>(null);
+
+  useEffect(() => {
+    if (!analyser) {
+      setLevel(null);
+      return;
+    }
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+    let lastUpdate = 0;
+    let clippingUntil = 0;
+
+    const tick = (now: number) => {
+      frame = requestAnimationFrame(tick);
+      if (now - lastUpdate < LEVEL_UPDATE_MS) return;
+      lastUpdate = now;
+      analyser.getFloatTimeDomainData(samples);
+      const { rms, peak } = measureLevel(samples);
+      if (peak >= CLIPPING_THRESHOLD) clippingUntil = now + CLIPPING_HOLD_MS;
+      setLevel({
+        rms,
+        peak,
+        rmsDb: amplitudeToDb(rms),
+        peakDb: amplitudeToDb(peak),
+        clipping: now < clippingUntil,
+      });
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [analyser]);
+
+  const bins = useMemo(() => (analyser ? new Uint8Array(analyser.frequencyBinCount) : null), [analyser]);
+
+  const getFrequencyData = useCallback(() => {
+    if (!analyser || !bins) return null;
+    analyser.getByteFrequencyData(bins);
+    return bins;
+  }, [analyser, bins]);
+
+  return { level, getFrequencyData };
+}
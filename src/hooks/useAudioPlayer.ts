@@ -1,294 +1,403 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
-
-// --- Utils (with types) ---
-function addWavHeader(pcmData: ArrayBuffer, sampleRate: number, numChannels: number, bytesPerSample: number): ArrayBuffer {
-    const dataSize = pcmData.byteLength;
-    const buffer = new ArrayBuffer(44 + dataSize);
-    const view = new DataView(buffer);
-    function writeString(view: DataView, offset: number, string: string) { for (let i = 0; i < string.length; i++) { view.setUint8(offset + i, string.charCodeAt(i)); } }
-    writeString(view, 0, 'RIFF'); view.setUint32(4, 36 + dataSize, true); writeString(view, 8, 'WAVE');
-    writeString(view, 12, 'fmt '); view.setUint32(16, 16, true); view.setUint16(20, 1, true);
-    view.setUint16(22, numChannels, true); view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * numChannels * bytesPerSample, true); view.setUint16(32, numChannels * bytesPerSample, true);
-    view.setUint16(34, bytesPerSample * 8, true); writeString(view, 36, 'data'); view.setUint32(40, dataSize, true);
-    const pcmView = new Uint8Array(pcmData); const dataView = new Uint8Array(buffer, 44); dataView.set(pcmView);
-    return buffer;
-}
-
+import { pcm16ToFloat32, pcmDuration } from '../utils/audio';
+import { PLAYBACK_JITTER_MS } from '../constants';
+import type { OutputSettings } from '../utils/audioSettings';
+import { createLevelAnalyser } from './useAudioLevel';
 
 interface UseAudioPlayerReturn {
     isPlaying: boolean;
-    playAudio: (pcmAudioBuffer: ArrayBuffer | null) => Promise<void>;
     stopPlayback: () => void;
+    // Streaming: schedule PCM chunks back-to-back as they arrive
+    enqueueChunk: (pcmChunk: ArrayBuffer) => void;
+    endStream: () => void;
+    getStreamProgress: () => StreamProgress | null;
+    underruns: number; // times live playback ran dry and re-buffered, this session
+    analyser: AnalyserNode | null; // tap on everything played, once playback has happened
+
+    // Replay of stored messages; only one plays at a time
+    replay: ReplayState | null;
+    // pcmSampleRate: the rate the message was recorded at, which may differ from the live one
+    playMessage: (messageId: string, pcm: ArrayBuffer, pcmSampleRate: number, fromSeconds?: number) => Promise<void>;
+    pauseMessage: () => void;
+    seekMessage: (messageId: string, pcm: ArrayBuffer, pcmSampleRate: number, fraction: number) => void;
     error: string | null;
 }
 
+export interface StreamProgress {
+    playedSeconds: number;   // audio actually heard so far
+    receivedSeconds: number; // audio received for this response
+}
+
+export interface ReplayState {
+    messageId: string;
+    isPlaying: boolean;
+    position: number; // seconds
+    duration: number; // seconds
+}
+
+interface ReplaySource {
+    messageId: string;
+    source: AudioBufferSourceNode | null; // null while paused
+    ctx: AudioContext | null;
+    startedAt: number;  // ctx time at which playback from `offset` began
+    offset: number;     // position at startedAt (or while paused), seconds
+    rate: number;       // playback rate since startedAt
+    duration: number;
+}
+
+const replayPosition = (r: ReplaySource): number =>
+    r.source && r.ctx ? Math.min(r.duration, r.offset + (r.ctx.currentTime - r.startedAt) * r.rate) : r.offset;
+
+// Not in the DOM typings yet; Chromium only
+type AudioContextWithSink = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+// Gain stage between every source and the destination, one per context
+interface OutputChain {
+    ctx: AudioContext;
+    gain: GainNode;
+    analyser: AnalyserNode; // after the gain, so it shows what is actually heard
+    sinkId: string; // last device requested for this context
+}
+
+const REPLAY_PROGRESS_INTERVAL_MS = 100;
+
+// Per-response streaming state; reset by stopPlayback
+interface StreamState {
+    ctx: AudioContext | null;   // context the stream is scheduled on
+    queue: Float32Array[];      // decoded chunks not yet scheduled
+    queuedSeconds: number;
+    started: boolean;           // jitter buffer filled, scheduling has begun
+    ended: boolean;             // endStream() called, no more chunks expected
+    nextStartTime: number;      // AudioContext time for the next chunk
+    scheduledSeconds: number;   // audio handed to the AudioContext so far
+    rate: number;               // playback rate, fixed for the whole response
+    sources: Set<AudioBufferSourceNode>;
+}
+
+const createStreamState = (): StreamState => ({
+    ctx: null,
+    queue: [],
+    queuedSeconds: 0,
+    started: false,
+    ended: false,
+    nextStartTime: 0,
+    scheduledSeconds: 0,
+    rate: 1,
+    sources: new Set(),
+});
+
 // **** CHANGED: First parameter is now the ensure function ****
+// Volume and output device apply immediately; a new playback rate applies to
+// replays at once and to live speech from the next response.
 export function useAudioPlayer(
     ensureAudioContext: () => Promise<AudioContext | null>,
-    sampleRate: number
+    sampleRate: number,
+    output: OutputSettings
 ): UseAudioPlayerReturn {
     const [isPlaying, setIsPlaying] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
-    const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
+    const [underruns, setUnderruns] = useState<number>(0);
+    const streamRef = useRef<StreamState>(createStreamState());
+    const [replay, setReplay] = useState<ReplayState | null>(null);
+    const replayRef = useRef<ReplaySource | null>(null);
+    // PCM → AudioBuffer conversion is cached per stored buffer
+    const replayBuffers = useRef(new WeakMap<ArrayBuffer, AudioBuffer>());
+    const outputRef = useRef<OutputChain | null>(null);
+    const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+    const outputSettingsRef = useRef<OutputSettings>(output);
+
+    const applySink = useCallback((chain: OutputChain, deviceId: string) => {
+        chain.sinkId = deviceId;
+        const ctx = chain.ctx as AudioContextWithSink;
+        if (!ctx.setSinkId) return;
+        ctx.setSinkId(deviceId).catch(err => {
+            // Usually the saved device was unplugged; fall back to the default one
+            console.warn(`[useAudioPlayer] setSinkId("${deviceId}") failed:`, err);
+            if (deviceId) ctx.setSinkId?.('').catch(() => {});
+        });
+    }, []);
+
+    // Where every source connects, so volume and device apply to all playback
+    const getOutput = useCallback((ctx: AudioContext): AudioNode => {
+        if (outputRef.current?.ctx !== ctx) {
+            const gain = ctx.createGain();
+            gain.gain.value = outputSettingsRef.current.volume;
+            gain.connect(ctx.destination);
+            const analyserNode = createLevelAnalyser(ctx);
+            gain.connect(analyserNode);
+            outputRef.current = { ctx, gain, analyser: analyserNode, sinkId: '' };
+            setAnalyser(analyserNode);
+        }
+        const chain = outputRef.current;
+        if (chain.sinkId !== outputSettingsRef.current.deviceId) applySink(chain, outputSettingsRef.current.deviceId);
+        return chain.gain;
+    }, [applySink]);
+
+    // --- Streaming playback ---
+    const stopStream = useCallback(() => {
+        const stream = streamRef.current;
+        streamRef.current = createStreamState();
+        stream.sources.forEach(source => {
+            source.onended = null;
+            try { source.stop(); } catch (e) { console.log(e) }
+            try { source.disconnect(); } catch (e) { console.log(e) }
+        });
+    }, []);
+
+    const stopReplay = useCallback(() => {
+        const current = replayRef.current;
+        replayRef.current = null;
+        if (current?.source) {
+            current.source.onended = null;
+            try { current.source.stop(); } catch (e) { console.log(e) }
+            try { current.source.disconnect(); } catch (e) { console.log(e) }
+        }
+        setReplay(null);
+    }, []);
+
+    const finishStreamIfDrained = useCallback((stream: StreamState) => {
+        if (stream === streamRef.current && stream.ended && stream.queue.length === 0 && stream.sources.size === 0) {
+            console.log('[useAudioPlayer] Stream playback finished.');
+            streamRef.current = createStreamState();
+            setIsPlaying(false);
+        }
+    }, []);
+
+    const scheduleChunk = useCallback((ctx: AudioContext, stream: StreamState, samples: Float32Array) => {
+        const jitterSeconds = PLAYBACK_JITTER_MS / 1000;
+        if (stream.nextStartTime < ctx.currentTime) {
+            // Ran dry before this chunk arrived; re-buffer instead of clicking through
+            console.warn(`[useAudioPlayer] Underrun: ${((ctx.currentTime - stream.nextStartTime) * 1000).toFixed(0)}ms gap.`);
+            setUnderruns(u => u + 1);
+            stream.nextStartTime = ctx.currentTime + jitterSeconds;
+        }
 
-    const playAudio = useCallback(async (pcmAudioBuffer: ArrayBuffer | null): Promise<void> => {
-        if (isPlaying) {
-            console.warn('[useAudioPlayer] Already playing.');
+        const audioBuffer = ctx.createBuffer(1, samples.length, sampleRate);
+        audioBuffer.copyToChannel(samples, 0);
+        const source = ctx.createBufferSource();
+        source.buffer = audioBuffer;
+        source.playbackRate.value = stream.rate;
+        source.connect(getOutput(ctx));
+        source.onended = () => {
+            stream.sources.delete(source);
+            try { source.disconnect(); } catch (e) { console.log(e) }
+            finishStreamIfDrained(stream);
+        };
+        source.start(stream.nextStartTime);
+        stream.nextStartTime += audioBuffer.duration / stream.rate;
+        stream.scheduledSeconds += audioBuffer.duration;
+        stream.sources.add(source);
+    }, [sampleRate, getOutput, finishStreamIfDrained]);
+
+    const pumpStream = useCallback(async () => {
+        const stream = streamRef.current;
+        const ctx = await ensureAudioContext();
+        if (!ctx) {
+            console.error('[useAudioPlayer] Failed to get valid AudioContext for stream.');
+            setError('Audio system not ready for playback.');
             return;
         }
-        if (!pcmAudioBuffer || pcmAudioBuffer.byteLength === 0) {
-            console.warn('[useAudioPlayer] Received empty buffer to play.');
-            setIsPlaying(false);
+        if (stream !== streamRef.current) return; // stopped while waiting
+
+        if (!stream.started) {
+            // Hold back the first chunks until the jitter buffer is full
+            if (stream.queuedSeconds * 1000 < PLAYBACK_JITTER_MS && !stream.ended) return;
+            stream.started = true;
+            stream.ctx = ctx;
+            stream.nextStartTime = ctx.currentTime;
+            stream.rate = outputSettingsRef.current.playbackRate;
+        }
+        while (stream.queue.length > 0) {
+            const samples = stream.queue.shift()!;
+            stream.queuedSeconds -= samples.length / sampleRate;
+            scheduleChunk(ctx, stream, samples);
+        }
+        finishStreamIfDrained(stream);
+    }, [ensureAudioContext, sampleRate, scheduleChunk, finishStreamIfDrained]);
+
+    const enqueueChunk = useCallback((pcmChunk: ArrayBuffer) => {
+        if (pcmChunk.byteLength === 0) return;
+        const stream = streamRef.current;
+        if (stream.ended) {
+            console.warn('[useAudioPlayer] Chunk received after endStream; ignoring.');
             return;
         }
-
+        if (replayRef.current) stopReplay(); // live audio takes priority over a replay
+        const samples = pcm16ToFloat32(pcmChunk);
+        stream.queue.push(samples);
+        stream.queuedSeconds += samples.length / sampleRate;
         setError(null);
-
-        // **** CHANGED: Call ensureAudioContext here ****
-        const currentAudioContext = await ensureAudioContext();
-        if (!currentAudioContext) { // Check if the function returned null (error)
-            console.error('[useAudioPlayer] Failed to get valid AudioContext.');
+        setIsPlaying(true);
+        pumpStream().catch(err => {
+            console.error('[useAudioPlayer] Error during stream playback:', err);
+            setError(`Audio playback error: ${err instanceof Error ? err.message : String(err)}`);
+        });
+    }, [sampleRate, pumpStream, stopReplay]);
+
+    const endStream = useCallback(() => {
+        const stream = streamRef.current;
+        if (stream.ended) return;
+        stream.ended = true;
+        if (stream.queue.length === 0 && stream.sources.size === 0) {
+            finishStreamIfDrained(stream);
+            return;
+        }
+        // Flush whatever is still sitting in the jitter buffer
+        pumpStream().catch(err => console.error('[useAudioPlayer] Error flushing stream:', err));
+    }, [pumpStream, finishStreamIfDrained]);
+
+    // How much of the current streamed response has actually been heard
+    const getStreamProgress = useCallback((): StreamProgress | null => {
+        const stream = streamRef.current;
+        const receivedSeconds = stream.scheduledSeconds + stream.queuedSeconds;
+        if (receivedSeconds === 0) return null;
+        // scheduled but not yet heard, converted from context time to audio time
+        const pendingSeconds = stream.ctx ? Math.max(0, stream.nextStartTime - stream.ctx.currentTime) * stream.rate : 0;
+        return {
+            playedSeconds: Math.max(0, stream.scheduledSeconds - pendingSeconds),
+            receivedSeconds,
+        };
+    }, []);
+
+    // --- Message replay ---
+    const playMessage = useCallback(async (messageId: string, pcm: ArrayBuffer, pcmSampleRate: number, fromSeconds?: number): Promise<void> => {
+        const ctx = await ensureAudioContext();
+        if (!ctx) {
             setError('Audio system not ready for playback.');
-            setIsPlaying(false);
             return;
         }
-        // If we get here, currentAudioContext is a valid, running AudioContext
-
-        setIsPlaying(true); // Set state before async decode
-        console.log(`[useAudioPlayer] Preparing playback for ${pcmAudioBuffer.byteLength} bytes.`);
+        setError(null);
 
-        // Stop previous playback source
-        if (sourceNodeRef.current) {
-            try { sourceNodeRef.current.stop(); } catch (e) { console.warn("Stop error:", e); }
-            try { sourceNodeRef.current.disconnect(); } catch (e) { console.warn("Disconnect error:", e); }
-            sourceNodeRef.current = null;
+        // Live AI audio and any other replay stop first
+        const wasPlayingLive = streamRef.current.sources.size > 0;
+        stopStream();
+        if (wasPlayingLive) setIsPlaying(false);
+
+        let audioBuffer = replayBuffers.current.get(pcm);
+        if (!audioBuffer) {
+            const samples = pcm16ToFloat32(pcm);
+            audioBuffer = ctx.createBuffer(1, Math.max(1, samples.length), pcmSampleRate);
+            audioBuffer.copyToChannel(samples, 0);
+            replayBuffers.current.set(pcm, audioBuffer);
         }
 
-        try {
-            const wavBuffer: ArrayBuffer = addWavHeader(pcmAudioBuffer, sampleRate, 1, 2);
-            // Use the guaranteed context
-            const decodedData: AudioBuffer = await currentAudioContext.decodeAudioData(wavBuffer);
-
-            // Minimal re-check after await
-            if (currentAudioContext.state !== 'running') {
-                 console.warn("[useAudioPlayer] AudioContext state changed unexpectedly after decode.");
-                 setIsPlaying(false);
-                 return;
-            }
-
-            const source: AudioBufferSourceNode = currentAudioContext.createBufferSource();
-            source.buffer = decodedData;
-            source.connect(currentAudioContext.destination);
-
-            source.onended = () => {
-                console.log('[useAudioPlayer] Playback finished.');
-                setIsPlaying(false);
-                if (sourceNodeRef.current === source) {
-                    sourceNodeRef.current = null;
-                }
-                try { source.disconnect(); } catch(e) {console.log(e)}
-            };
-
-            sourceNodeRef.current = source;
-            source.start(0);
-            console.log('[useAudioPlayer] Playback started.');
-
-        } catch (err) {
-            console.error('[useAudioPlayer] Error during playback:', err);
-            setError(`Audio playback error: ${err instanceof Error ? err.message : String(err)}`);
-            setIsPlaying(false);
-            sourceNodeRef.current = null;
+        const previous = replayRef.current;
+        // Resume where a paused message left off unless told otherwise
+        let offset = fromSeconds ?? (previous?.messageId === messageId && !previous.source ? previous.offset : 0);
+        if (offset >= audioBuffer.duration) offset = 0;
+        stopReplay();
+
+        const rate = outputSettingsRef.current.playbackRate;
+        const source = ctx.createBufferSource();
+        source.buffer = audioBuffer;
+        source.playbackRate.value = rate;
+        source.connect(getOutput(ctx));
+        source.onended = () => {
+            if (replayRef.current?.source !== source) return;
+            try { source.disconnect(); } catch (e) { console.log(e) }
+            replayRef.current = null;
+            setReplay(null);
+        };
+        source.start(0, offset);
+        replayRef.current = {
+            messageId,
+            source,
+            ctx,
+            startedAt: ctx.currentTime,
+            offset,
+            rate,
+            duration: audioBuffer.duration,
+        };
+        setReplay({ messageId, isPlaying: true, position: offset, duration: audioBuffer.duration });
+    }, [ensureAudioContext, getOutput, stopStream, stopReplay]);
+
+    const pauseMessage = useCallback(() => {
+        const current = replayRef.current;
+        if (!current?.source || !current.ctx) return;
+        const position = replayPosition(current);
+        current.source.onended = null;
+        try { current.source.stop(); } catch (e) { console.log(e) }
+        try { current.source.disconnect(); } catch (e) { console.log(e) }
+        replayRef.current = { ...current, source: null, offset: position };
+        setReplay({ messageId: current.messageId, isPlaying: false, position, duration: current.duration });
+    }, []);
+
+    const seekMessage = useCallback((messageId: string, pcm: ArrayBuffer, pcmSampleRate: number, fraction: number) => {
+        const duration = pcmDuration(pcm.byteLength, pcmSampleRate);
+        const position = Math.max(0, Math.min(1, fraction)) * duration;
+        const current = replayRef.current;
+        if (current?.messageId === messageId && current.source) {
+            playMessage(messageId, pcm, pcmSampleRate, position);
+            return;
         }
-    // **** CHANGED: Update dependencies ****
-    }, [isPlaying, ensureAudioContext, sampleRate]);
+        // Not playing: just move the paused position
+        stopReplay();
+        replayRef.current = { messageId, source: null, ctx: null, startedAt: 0, offset: position, rate: 1, duration };
+        setReplay({ messageId, isPlaying: false, position, duration });
+    }, [playMessage, stopReplay]);
+
+    // Tick progress while a replay is running
+    const replayIsPlaying = replay?.isPlaying ?? false;
+    useEffect(() => {
+        if (!replayIsPlaying) return;
+        const timer = setInterval(() => {
+            const current = replayRef.current;
+            if (!current?.source || !current.ctx) return;
+            const position = replayPosition(current);
+            setReplay(r => (r && r.messageId === current.messageId ? { ...r, position } : r));
+        }, REPLAY_PROGRESS_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [replayIsPlaying]);
+
+    // --- Output settings ---
+    useEffect(() => {
+        outputSettingsRef.current = output;
+        const chain = outputRef.current;
+        if (chain) {
+            chain.gain.gain.setTargetAtTime(output.volume, chain.ctx.currentTime, 0.02); // short ramp, no zipper noise
+            if (chain.sinkId !== output.deviceId) applySink(chain, output.deviceId);
+        }
+        // A replay picks up the new speed where it is; live speech waits for the next response
+        const current = replayRef.current;
+        if (current?.source && current.ctx && current.rate !== output.playbackRate) {
+            const position = replayPosition(current);
+            current.source.playbackRate.value = output.playbackRate;
+            replayRef.current = { ...current, startedAt: current.ctx.currentTime, offset: position, rate: output.playbackRate };
+        }
+    }, [output, applySink]);
 
     const stopPlayback = useCallback(() => {
-        if (sourceNodeRef.current) {
-            console.log('[useAudioPlayer] Stopping playback manually.');
-            try {
-                sourceNodeRef.current.stop();
-                // onended should handle state/ref cleanup
-            } catch (e) {
-                console.warn('[useAudioPlayer] Error stopping node:', e);
-                 if (sourceNodeRef.current) {
-                     try { sourceNodeRef.current.disconnect(); } catch (e) { console.log(e) }
-                 }
-                 setIsPlaying(false);
-                 sourceNodeRef.current = null;
-            }
-        } else {
-           if (isPlaying) setIsPlaying(false);
-        }
-   }, [isPlaying]);
+        const streaming = streamRef.current.sources.size > 0 || streamRef.current.queue.length > 0;
+        stopStream();
+        if (replayRef.current) stopReplay();
+        if (isPlaying || streaming) setIsPlaying(false);
+   }, [isPlaying, stopStream, stopReplay]);
 
    // Cleanup effect
    useEffect(() => {
        return () => {
            // Ensure playback stops if the component unmounts while playing
-            if (sourceNodeRef.current) {
-               try { sourceNodeRef.current.stop(); } catch (e) { console.log(e) }
-               try { sourceNodeRef.current.disconnect(); } catch (e) { console.log(e) }
-               sourceNodeRef.current = null;
+            stopStream();
+            const current = replayRef.current;
+            if (current?.source) {
+               try { current.source.stop(); } catch (e) { console.log(e) }
             }
        };
-   }, []); // Run only on unmount
+   }, [stopStream]); // Run only on unmount
 
 
     return {
         isPlaying,
-        playAudio,
         stopPlayback,
+        enqueueChunk,
+        endStream,
+        getStreamProgress,
+        underruns,
+        analyser,
+        replay,
+        playMessage,
+        pauseMessage,
+        seekMessage,
         error
     };
 }
-
-// import { useState, useRef, useCallback, useEffect } from 'react';
-
-// // --- Utils (with types) ---
-// function addWavHeader(pcmData: ArrayBuffer, sampleRate: number, numChannels: number, bytesPerSample: number): ArrayBuffer {
-//     const dataSize = pcmData.byteLength;
-//     const buffer = new ArrayBuffer(44 + dataSize);
-//     const view = new DataView(buffer);
-//     function writeString(view: DataView, offset: number, string: string) { for (let i = 0; i < string.length; i++) { view.setUint8(offset + i, string.charCodeAt(i)); } }
-//     writeString(view, 0, 'RIFF'); view.setUint32(4, 36 + dataSize, true); writeString(view, 8, 'WAVE');
-//     writeString(view, 12, 'fmt '); view.setUint32(16, 16, true); view.setUint16(20, 1, true);
-//     view.setUint16(22, numChannels, true); view.setUint32(24, sampleRate, true);
-//     view.setUint32(28, sampleRate * numChannels * bytesPerSample, true); view.setUint16(32, numChannels * bytesPerSample, true);
-//     view.setUint16(34, bytesPerSample * 8, true); writeString(view, 36, 'data'); view.setUint32(40, dataSize, true);
-//     const pcmView = new Uint8Array(pcmData); const dataView = new Uint8Array(buffer, 44); dataView.set(pcmView);
-//     return buffer;
-// }
-
-// // Type for the hook's return value
-// interface UseAudioPlayerReturn {
-//     isPlaying: boolean;
-//     playAudio: (pcmAudioBuffer: ArrayBuffer | null) => Promise<void>;
-//     stopPlayback: () => void;
-//     error: string | null;
-// }
-
-// // Hook definition with typed parameters
-// export function useAudioPlayer(
-//     audioContext: AudioContext | null,
-//     sampleRate: number
-// ): UseAudioPlayerReturn {
-//     const [isPlaying, setIsPlaying] = useState<boolean>(false);
-//     const [error, setError] = useState<string | null>(null);
-//     const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
-
-//     const playAudio = useCallback(async (pcmAudioBuffer: ArrayBuffer | null): Promise<void> => {
-//         // Check current state and context validity first
-//         if (isPlaying) {
-//             console.warn('[useAudioPlayer] Already playing.');
-//             return;
-//         }
-//         if (!audioContext || audioContext.state !== 'running') {
-//             console.error('[useAudioPlayer] AudioContext not available or not running.');
-//             setError('Audio system not ready for playback.');
-//             setIsPlaying(false); // Ensure state is false if context fails
-//             return;
-//         }
-//         if (!pcmAudioBuffer || pcmAudioBuffer.byteLength === 0) {
-//             console.warn('[useAudioPlayer] Received empty buffer to play.');
-//             setIsPlaying(false); // Ensure state is false if nothing to play
-//             return;
-//         }
-
-//         setError(null);
-//         setIsPlaying(true); // Set state before async operations
-//         console.log(`[useAudioPlayer] Preparing playback for ${pcmAudioBuffer.byteLength} bytes.`);
-
-//         // Stop any previous playback source
-//         if (sourceNodeRef.current) {
-//             try { sourceNodeRef.current.stop(); } catch (e) { console.warn("Stop error:", e); }
-//             try { sourceNodeRef.current.disconnect(); } catch (e) { console.warn("Disconnect error:", e); }
-//             sourceNodeRef.current = null;
-//         }
-
-
-//         try {
-//             // Add WAV header
-//             const wavBuffer: ArrayBuffer = addWavHeader(pcmAudioBuffer, sampleRate, 1, 2); // Mono, 16-bit
-
-//             // Decode
-//             const decodedData: AudioBuffer = await audioContext.decodeAudioData(wavBuffer);
-
-//             // Re-check context state after await
-//             if (!audioContext || audioContext.state !== 'running') {
-//                  console.warn("[useAudioPlayer] AudioContext closed before playback could start.");
-//                  setIsPlaying(false);
-//                  return;
-//             }
-
-//             // Create and configure source node
-//             const source: AudioBufferSourceNode = audioContext.createBufferSource();
-//             source.buffer = decodedData;
-//             source.connect(audioContext.destination);
-
-//             source.onended = () => {
-//                 console.log('[useAudioPlayer] Playback finished.');
-//                 setIsPlaying(false);
-//                  // Check ref before clearing, ensure it's the *same* node
-//                 if (sourceNodeRef.current === source) {
-//                     sourceNodeRef.current = null;
-//                 }
-//                 // Explicitly disconnect after finished
-//                 try { source.disconnect(); } catch(e) {console.log(e)}
-//             };
-
-//             // Store ref and start
-//             sourceNodeRef.current = source;
-//             source.start(0);
-//             console.log('[useAudioPlayer] Playback started.');
-
-//         } catch (err) {
-//             console.error('[useAudioPlayer] Error during playback:', err);
-//             setError(`Audio playback error: ${err instanceof Error ? err.message : String(err)}`);
-//             setIsPlaying(false); // Revert state on error
-//             sourceNodeRef.current = null; // Clear ref on error
-//         }
-//     }, [isPlaying, audioContext, sampleRate]); // Dependencies
-
-//     const stopPlayback = useCallback(() => {
-//          if (sourceNodeRef.current) {
-//              console.log('[useAudioPlayer] Stopping playback manually.');
-//              try {
-//                  sourceNodeRef.current.stop();
-//                  // onended should fire and handle state/ref cleanup
-//              } catch (e) {
-//                  console.warn('[useAudioPlayer] Error stopping node:', e);
-//                   // Force cleanup if stop fails unexpectedly
-//                  if (sourceNodeRef.current) {
-//                      try { sourceNodeRef.current.disconnect(); } catch (de) { console.log(de) }
-//                  }
-//                  setIsPlaying(false);
-//                  sourceNodeRef.current = null;
-//              }
-//          } else {
-//             // console.log('[useAudioPlayer] No active playback source to stop.');
-//             // Ensure state is false if called when nothing is playing
-//             if (isPlaying) setIsPlaying(false);
-//          }
-//     }, [isPlaying]); // Added isPlaying dependency
-
-//      // Cleanup effect for unmount
-//      useEffect(() => {
-//         return () => {
-//             console.log("[useAudioPlayer] Cleaning up on unmount...");
-//             // Ensure playback stops if the component unmounts while playing
-//              if (sourceNodeRef.current) {
-//                 try { sourceNodeRef.current.stop(); } catch (e) { console.log(e)}
-//                 try { sourceNodeRef.current.disconnect(); } catch (e) { console.log(e) }
-//                 sourceNodeRef.current = null;
-//              }
-//         };
-//     }, []); // Run only on unmount
-
-//     return {
-//         isPlaying,
-//         playAudio,
-//         stopPlayback,
-//         error
-//     };
-// }
\ No newline at end of file
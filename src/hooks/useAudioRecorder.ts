@@ -1,38 +1,56 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
-
-// --- Utils (with types) ---
-// (Keep the downsampleBuffer and floatTo16BitPCM functions as they are)
-function downsampleBuffer(buffer: Float32Array, inputSampleRate: number, outputSampleRate: number): Float32Array {
-    if (inputSampleRate === outputSampleRate) { return buffer; }
-    const sampleRateRatio = inputSampleRate / outputSampleRate;
-    const newLength = Math.round(buffer.length / sampleRateRatio);
-    const result = new Float32Array(newLength);
-    let offsetResult = 0, offsetBuffer = 0;
-    while (offsetResult < result.length) {
-        const nextOffsetBuffer = Math.round((offsetResult + 1) * sampleRateRatio);
-        let accum = 0, count = 0;
-        for (let i = offsetBuffer; i < nextOffsetBuffer && i < buffer.length; i++) { accum += buffer[i]; count++; }
-        result[offsetResult] = count > 0 ? accum / count : 0;
-        offsetResult++; offsetBuffer = nextOffsetBuffer;
-    } return result;
-}
-function floatTo16BitPCM(input: Float32Array): Int16Array {
-    const output = new Int16Array(input.length);
-    for (let i = 0; i < input.length; i++) {
-        const s = Math.max(-1, Math.min(1, input[i]));
-        output[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-    } return output;
+import { floatTo16BitPCM } from '../utils/audio';
+import { createResampler } from '../utils/resampler';
+import { CAPTURE_FRAME_MS, CAPTURE_PROCESSOR_NAME, CAPTURE_RESAMPLER_QUALITY } from '../constants';
+import captureProcessorUrl from '../worklets/pcmCaptureProcessor.ts?worker&url';
+import type { CaptureProcessorOptions } from '../worklets/pcmCaptureProcessor';
+import { createVoiceActivityDetector, VadOptions, VoiceActivityDetector } from '../utils/vad';
+import { createLevelAnalyser } from './useAudioLevel';
+import { DEFAULT_MICROPHONE_SETTINGS, MicrophoneSettings, microphoneConstraints } from '../utils/audioSettings';
+
+// addModule() only needs to run once per context
+const contextsWithCaptureModule = new WeakSet<BaseAudioContext>();
+
+async function ensureCaptureModule(audioContext: AudioContext): Promise<void> {
+    if (contextsWithCaptureModule.has(audioContext)) return;
+    await audioContext.audioWorklet.addModule(captureProcessorUrl);
+    contextsWithCaptureModule.add(audioContext);
 }
 
 
 interface AudioNodes {
     sourceNode: MediaStreamAudioSourceNode;
-    processorNode: ScriptProcessorNode;
+    processorNode: AudioWorkletNode | ScriptProcessorNode;
+    analyserNode: AnalyserNode;
+}
+
+export interface UseAudioRecorderOptions {
+    vad?: Partial<VadOptions>;
+    autoStopOnSilence?: boolean; // stop recording once the VAD reports end of speech
+    onSpeechStart?: () => void;
+    onSpeechEnd?: (autoStopped: boolean) => void;
+    microphone?: MicrophoneSettings; // device and processing, applied when recording starts
+    onInputLost?: () => void; // the mic went away mid-recording (unplugged, revoked)
+}
+
+// A saved device that is no longer plugged in shouldn't stop the user from talking
+async function openMicrophone(settings: MicrophoneSettings): Promise<MediaStream> {
+    try {
+        return await navigator.mediaDevices.getUserMedia({ audio: microphoneConstraints(settings) });
+    } catch (err) {
+        const missingDevice = err instanceof Error && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError');
+        if (!settings.deviceId || !missingDevice) throw err;
+        console.warn('[useAudioRecorder] Selected microphone unavailable, using the default one.');
+        return navigator.mediaDevices.getUserMedia({ audio: microphoneConstraints(settings, true) });
+    }
 }
 
 interface UseAudioRecorderReturn {
     isRecording: boolean;
-    startRecording: () => Promise<void>;
+    isSpeaking: boolean; // VAD state for the current recording
+    analyser: AnalyserNode | null; // tap on the mic signal while recording, for meters
+    // vadOverrides tweak the detector for this recording only (e.g. stricter while the AI talks)
+    startRecording: (vadOverrides?: Partial<VadOptions>) => Promise<void>;
     stopRecording: () => void;
     error: string | null;
 }
@@ -40,10 +58,13 @@ interface UseAudioRecorderReturn {
 export function useAudioRecorder(
     audioContext: AudioContext | null,
     onDataAvailable: (pcmBuffer: ArrayBuffer) => void,
-    targetSampleRate: number
+    targetSampleRate: number,
+    options: UseAudioRecorderOptions = {}
 ): UseAudioRecorderReturn {
     const [isRecording, setIsRecording] = useState<boolean>(false);
+    const [isSpeaking, setIsSpeaking] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
+    const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
     const streamRef = useRef<MediaStream | null>(null);
     const audioProcessingNodes = useRef<AudioNodes | null>(null);
 
@@ -61,6 +82,16 @@ export function useAudioRecorder(
         onDataAvailableRef.current = onDataAvailable;
     }, [onDataAvailable]);
 
+    // Options are read from the frame handler, keep the latest in a ref too
+    const optionsRef = useRef<UseAudioRecorderOptions>(options);
+    useEffect(() => {
+        optionsRef.current = options;
+    }, [options]);
+    const vadRef = useRef<VoiceActivityDetector | null>(null);
+    // Bumped by every start and stop; a start that finds it changed after an
+    // await was stopped meanwhile and must not build its graph
+    const startToken = useRef(0);
+
 
     const stopAudioNodes = useCallback(() => {
         if (streamRef.current) {
@@ -68,22 +99,71 @@ export function useAudioRecorder(
             streamRef.current = null;
         }
         try {
-            if (audioProcessingNodes.current?.processorNode) {
-                audioProcessingNodes.current.processorNode.onaudioprocess = null;
-                audioProcessingNodes.current.processorNode.disconnect();
+            const processorNode = audioProcessingNodes.current?.processorNode;
+            if (processorNode) {
+                if (processorNode instanceof AudioWorkletNode) {
+                    processorNode.port.onmessage = null;
+                    processorNode.port.close();
+                } else {
+                    processorNode.onaudioprocess = null;
+                }
+                processorNode.disconnect();
                 console.log('[useAudioRecorder] Processor node disconnected.');
             }
             if (audioProcessingNodes.current?.sourceNode) {
                 audioProcessingNodes.current.sourceNode.disconnect();
                  console.log('[useAudioRecorder] Source node disconnected.');
             }
+            audioProcessingNodes.current?.analyserNode.disconnect();
         } catch (de) {
             console.error("[useAudioRecorder] Disconnect error:", de);
         }
         audioProcessingNodes.current = null;
+        setAnalyser(null);
     }, []);
 
-    const startRecording = useCallback(async (): Promise<void> => {
+    const stopRecording = useCallback(() => {
+        if (!isRecordingRef.current) { // Check ref here too
+            // console.log('[useAudioRecorder] Stop called but not recording (ref check).');
+            return;
+        }
+        console.log('[useAudioRecorder] Stopping recording...');
+        startToken.current += 1;
+        isRecordingRef.current = false;
+        setIsRecording(false);
+        setIsSpeaking(false);
+        stopAudioNodes(); // Cleanup nodes
+        console.log('[useAudioRecorder] Recording stopped.');
+    // Explicitly list dependencies
+    }, [stopAudioNodes, setIsRecording]); // Added setIsRecording
+
+    // Every PCM frame passes through the VAD before being handed to the caller
+    const handleFrame = useCallback((pcmBuffer: ArrayBuffer) => {
+        if (onDataAvailableRef.current) {
+            onDataAvailableRef.current(pcmBuffer);
+        } else {
+            console.warn('[useAudioRecorder] onDataAvailableRef.current is null!');
+        }
+
+        const events = vadRef.current?.process(new Int16Array(pcmBuffer)) ?? [];
+        for (const event of events) {
+            if (event === 'speechStart') {
+                setIsSpeaking(true);
+                optionsRef.current.onSpeechStart?.();
+            } else {
+                setIsSpeaking(false);
+                const autoStop = !!optionsRef.current.autoStopOnSilence;
+                if (autoStop) {
+                    console.log('[useAudioRecorder] Trailing silence detected, auto-stopping.');
+                    stopRecording();
+                }
+                optionsRef.current.onSpeechEnd?.(autoStop);
+                if (autoStop) return;
+            }
+        }
+    }, [stopRecording]);
+
+    const startRecording = useCallback(async (vadOverrides?: Partial<VadOptions>): Promise<void> => {
         // Use the ref here to prevent starting multiple times if state update is slow
         if (isRecordingRef.current) {
             console.warn('[useAudioRecorder] Already recording (ref check).');
@@ -96,81 +176,131 @@ export function useAudioRecorder(
         }
 
         setError(null);
-        setIsRecording(true); // Set state AND ref (ref updates via useEffect)
+        const token = ++startToken.current;
+        isRecordingRef.current = true; // a stop during the awaits below must see it
+        setIsRecording(true);
+        setIsSpeaking(false);
+        vadRef.current = createVoiceActivityDetector(targetSampleRate, {
+            ...optionsRef.current.vad,
+            ...vadOverrides,
+        });
 
         try {
             console.log('[useAudioRecorder] Requesting microphone access...');
-            const stream: MediaStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            const stream: MediaStream = await openMicrophone(optionsRef.current.microphone ?? DEFAULT_MICROPHONE_SETTINGS);
+            if (startToken.current !== token) {
+                // stopped while the mic was opening: release it at once
+                stream.getTracks().forEach(t => t.stop());
+                console.log('[useAudioRecorder] Recording cancelled before the microphone opened.');
+                return;
+            }
             streamRef.current = stream;
-            console.log('[useAudioRecorder] Microphone access granted.');
+            console.log(`[useAudioRecorder] Microphone access granted (${stream.getAudioTracks()[0]?.label || 'unknown device'}).`);
+
+            // Fires when the device is unplugged or permission is revoked, not on our own stop()
+            stream.getAudioTracks().forEach((track) => {
+                track.onended = () => {
+                    if (streamRef.current !== stream) return;
+                    console.warn('[useAudioRecorder] Microphone track ended unexpectedly.');
+                    setError('Microphone disconnected.');
+                    stopRecording();
+                    optionsRef.current.onInputLost?.();
+                };
+            });
 
             const sourceNodeMic: MediaStreamAudioSourceNode = audioContext.createMediaStreamSource(stream);
-            if (!audioContext.createScriptProcessor) {
-                 console.error("ScriptProcessorNode is not supported.");
-                 throw new Error("ScriptProcessorNode not supported");
-            }
-            const processorNode: ScriptProcessorNode = audioContext.createScriptProcessor(4096, 1, 1);
             const inputSampleRate: number = audioContext.sampleRate;
             console.log(`[useAudioRecorder] Mic SR: ${inputSampleRate}, Target SR: ${targetSampleRate}`);
 
-            // *** CRITICAL: Assign the callback HERE ***
-            processorNode.onaudioprocess = (e: AudioProcessingEvent) => {
-                // ** Access isRecording via the ref inside the callback **
-                if (!isRecordingRef.current) {
-                    // console.log("[useAudioRecorder] onaudioprocess: Not recording (ref check), returning.");
-                    return;
+            const handleProcessingError = (pe: unknown) => {
+                console.error("[useAudioRecorder] Processing Error:", pe);
+                setError(`Audio processing failed: ${pe instanceof Error ? pe.message : String(pe)}`);
+                isRecordingRef.current = false;
+                setIsRecording(false);
+                stopAudioNodes(); // Stop nodes on error
+            };
+
+            let processorNode: AudioWorkletNode | ScriptProcessorNode;
+            if (audioContext.audioWorklet) {
+                // Preferred path: resampling + PCM conversion run off the main thread
+                await ensureCaptureModule(audioContext);
+                // stopRecording already released the stream
+                if (startToken.current !== token) return;
+                const processorOptions: CaptureProcessorOptions = {
+                    targetSampleRate,
+                    frameSize: Math.round((targetSampleRate * CAPTURE_FRAME_MS) / 1000),
+                    resamplerQuality: CAPTURE_RESAMPLER_QUALITY,
+                };
+                const workletNode = new AudioWorkletNode(audioContext, CAPTURE_PROCESSOR_NAME, {
+                    numberOfInputs: 1,
+                    numberOfOutputs: 1,
+                    channelCount: 1,
+                    channelCountMode: 'explicit',
+                    processorOptions,
+                });
+                workletNode.port.onmessage = (e: MessageEvent<ArrayBuffer>) => {
+                    // ** Access isRecording via the ref inside the callback **
+                    if (!isRecordingRef.current) return;
+                    handleFrame(e.data);
+                };
+                workletNode.onprocessorerror = (e) => handleProcessingError(e);
+                processorNode = workletNode;
+                console.log('[useAudioRecorder] Using AudioWorklet capture.');
+            } else {
+                // Fallback for browsers without AudioWorklet
+                if (!audioContext.createScriptProcessor) {
+                    console.error("Neither AudioWorklet nor ScriptProcessorNode is supported.");
+                    throw new Error("Audio capture not supported");
                 }
+                const scriptNode: ScriptProcessorNode = audioContext.createScriptProcessor(4096, 1, 1);
+                const resampler = inputSampleRate === targetSampleRate
+                    ? null
+                    : createResampler(inputSampleRate, targetSampleRate, CAPTURE_RESAMPLER_QUALITY);
+
+                // *** CRITICAL: Assign the callback HERE ***
+                scriptNode.onaudioprocess = (e: AudioProcessingEvent) => {
+                    // ** Access isRecording via the ref inside the callback **
+                    if (!isRecordingRef.current) {
+                        return;
+                    }
+
+                    try {
+                        const inputData: Float32Array = e.inputBuffer.getChannelData(0);
+                        const resampledData: Float32Array = resampler ? resampler.process(inputData) : inputData;
+                        const pcm16Data: Int16Array = floatTo16BitPCM(resampledData);
+                        const pcmBuffer = pcm16Data.buffer as ArrayBuffer;
 
-                try {
-                    const inputData: Float32Array = e.inputBuffer.getChannelData(0);
-                    const downsampledData: Float32Array = downsampleBuffer(inputData, inputSampleRate, targetSampleRate);
-                    const pcm16Data: Int16Array = floatTo16BitPCM(downsampledData);
-                    const pcmBuffer = pcm16Data.buffer;
-
-                    // ** Access the callback via the ref **
-                    if (onDataAvailableRef.current) {
-                        // console.log(`[useAudioRecorder] onaudioprocess: Sending ${pcmBuffer.byteLength} bytes via ref callback.`);
-                        onDataAvailableRef.current(pcmBuffer);
-                    } else {
-                         console.warn('[useAudioRecorder] onaudioprocess: onDataAvailableRef.current is null!');
+                        handleFrame(pcmBuffer);
+                    } catch (pe) {
+                        handleProcessingError(pe);
                     }
-                } catch (pe) {
-                    console.error("[useAudioRecorder] Processing Error in onaudioprocess:", pe);
-                    setError(`Audio processing failed: ${pe instanceof Error ? pe.message : String(pe)}`);
-                    // Use the state setter, which will trigger the ref update
-                    setIsRecording(false);
-                    stopAudioNodes(); // Stop nodes on error
-                }
-            };
+                };
+                processorNode = scriptNode;
+                console.warn('[useAudioRecorder] AudioWorklet unavailable, falling back to ScriptProcessorNode.');
+            }
 
             sourceNodeMic.connect(processorNode);
             processorNode.connect(audioContext.destination);
-            audioProcessingNodes.current = { sourceNode: sourceNodeMic, processorNode: processorNode };
+            const analyserNode = createLevelAnalyser(audioContext);
+            sourceNodeMic.connect(analyserNode); // side branch, nothing downstream
+            audioProcessingNodes.current = { sourceNode: sourceNodeMic, processorNode: processorNode, analyserNode };
+            setAnalyser(analyserNode);
             console.log('[useAudioRecorder] Recording started.');
 
         } catch (err) {
+            if (startToken.current !== token) return; // a stop or a newer start owns the state now
             console.error('[useAudioRecorder] Start Recording Error:', err);
              const userMessage = `Recording start failed: ${err instanceof Error ? err.message : String(err)}`;
              if (err instanceof Error) { /* ... error message formatting ... */ }
             setError(userMessage);
+            isRecordingRef.current = false;
             setIsRecording(false); // Revert state on error
             stopAudioNodes();
         }
     // Explicitly list dependencies - crucial!
-    }, [audioContext, targetSampleRate, stopAudioNodes, setIsRecording, setError]); // Added state setters
+    }, [audioContext, targetSampleRate, stopAudioNodes, stopRecording, handleFrame, setIsRecording, setError]); // Added state setters
 
 
-    const stopRecording = useCallback(() => {
-        if (!isRecordingRef.current) { // Check ref here too
-            // console.log('[useAudioRecorder] Stop called but not recording (ref check).');
-            return;
-        }
-        console.log('[useAudioRecorder] Stopping recording...');
-        setIsRecording(false); // Set state first, ref updates via useEffect
-        stopAudioNodes(); // Cleanup nodes
-        console.log('[useAudioRecorder] Recording stopped.');
-    // Explicitly list dependencies
-    }, [stopAudioNodes, setIsRecording]); // Added setIsRecording
 
     // Cleanup effect for unmount
     useEffect(() => {
@@ -186,196 +316,10 @@ export function useAudioRecorder(
 
     return {
         isRecording,
+        isSpeaking,
+        analyser,
         startRecording,
         stopRecording,
         error
     };
 }
-
-// import { useState, useRef, useCallback, useEffect } from 'react';
-
-// // --- Utils (with types) ---
-// function downsampleBuffer(buffer: Float32Array, inputSampleRate: number, outputSampleRate: number): Float32Array {
-//     if (inputSampleRate === outputSampleRate) { return buffer; }
-//     const sampleRateRatio = inputSampleRate / outputSampleRate;
-//     const newLength = Math.round(buffer.length / sampleRateRatio);
-//     const result = new Float32Array(newLength);
-//     let offsetResult = 0, offsetBuffer = 0;
-//     while (offsetResult < result.length) {
-//         const nextOffsetBuffer = Math.round((offsetResult + 1) * sampleRateRatio);
-//         let accum = 0, count = 0;
-//         for (let i = offsetBuffer; i < nextOffsetBuffer && i < buffer.length; i++) { accum += buffer[i]; count++; }
-//         result[offsetResult] = count > 0 ? accum / count : 0;
-//         offsetResult++; offsetBuffer = nextOffsetBuffer;
-//     } return result;
-// }
-// function floatTo16BitPCM(input: Float32Array): Int16Array {
-//     const output = new Int16Array(input.length);
-//     for (let i = 0; i < input.length; i++) {
-//         const s = Math.max(-1, Math.min(1, input[i]));
-//         output[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-//     } return output;
-// }
-
-// // Type for the internal nodes structure
-// interface AudioNodes {
-//     sourceNode: MediaStreamAudioSourceNode;
-//     processorNode: ScriptProcessorNode;
-// }
-
-// // Type for the hook's return value
-// interface UseAudioRecorderReturn {
-//     isRecording: boolean;
-//     startRecording: () => Promise<void>;
-//     stopRecording: () => void;
-//     error: string | null;
-// }
-
-// // Hook definition with typed parameters
-// export function useAudioRecorder(
-//     audioContext: AudioContext | null,
-//     onDataAvailable: (pcmBuffer: ArrayBuffer) => void,
-//     targetSampleRate: number
-// ): UseAudioRecorderReturn {
-//     const [isRecording, setIsRecording] = useState<boolean>(false);
-//     const [error, setError] = useState<string | null>(null);
-//     const streamRef = useRef<MediaStream | null>(null);
-//     const audioProcessingNodes = useRef<AudioNodes | null>(null);
-//     const onDataAvailableRef = useRef(onDataAvailable); // Store callback
-
-//     // Keep callback ref updated
-//     useEffect(() => {
-//         onDataAvailableRef.current = onDataAvailable;
-//     }, [onDataAvailable]);
-
-//     // Memoized cleanup function
-//     const stopAudioNodes = useCallback(() => {
-//         if (streamRef.current) {
-//             streamRef.current.getTracks().forEach(t => t.stop());
-//             streamRef.current = null;
-//         }
-//         try {
-//             if (audioProcessingNodes.current?.processorNode) {
-//                 audioProcessingNodes.current.processorNode.onaudioprocess = null; // Remove listener first!
-//                 audioProcessingNodes.current.processorNode.disconnect();
-//             }
-//             if (audioProcessingNodes.current?.sourceNode) {
-//                 audioProcessingNodes.current.sourceNode.disconnect();
-//             }
-//         } catch (de) {
-//             console.error("[useAudioRecorder] Disconnect error:", de);
-//         }
-//         audioProcessingNodes.current = null; // Clear the ref
-//     }, []); // No dependencies needed
-
-//     const startRecording = useCallback(async (): Promise<void> => {
-//         if (isRecording) {
-//             console.warn('[useAudioRecorder] Already recording.');
-//             return;
-//         }
-//         if (!audioContext || audioContext.state !== 'running') {
-//             console.error('[useAudioRecorder] AudioContext not available or not running.');
-//             setError('Audio system not ready.');
-//             setIsRecording(false); // Ensure state is false if context fails
-//             return;
-//         }
-
-//         setError(null);
-//         // Set state before async operation, revert on failure
-//         setIsRecording(true);
-
-//         try {
-//             console.log('[useAudioRecorder] Requesting microphone access...');
-//             const stream: MediaStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-//             streamRef.current = stream;
-//             console.log('[useAudioRecorder] Microphone access granted.');
-
-//             const sourceNodeMic: MediaStreamAudioSourceNode = audioContext.createMediaStreamSource(stream);
-//             if (!audioContext.createScriptProcessor) {
-//                  console.error("ScriptProcessorNode is not supported.");
-//                  throw new Error("ScriptProcessorNode is not supported");
-//             }
-//             const processorNode: ScriptProcessorNode = audioContext.createScriptProcessor(4096, 1, 1);
-//             const inputSampleRate: number = audioContext.sampleRate;
-//             console.log(`[useAudioRecorder] Mic SR: ${inputSampleRate}, Target SR: ${targetSampleRate}`);
-
-//             // Inside useAudioRecorder.ts
-
-//             processorNode.onaudioprocess = (e: AudioProcessingEvent) => {
-//                 if (!isRecording) return;
-
-//                 try {
-//                     const inputData: Float32Array = e.inputBuffer.getChannelData(0);
-//                     const downsampledData: Float32Array = downsampleBuffer(inputData, inputSampleRate, targetSampleRate);
-//                     const pcm16Data: Int16Array = floatTo16BitPCM(downsampledData);
-//                     const pcmBuffer = pcm16Data.buffer; // Get the ArrayBuffer
-
-//                     // *** ADD LOG HERE ***
-//                     // console.log(`[useAudioRecorder] onaudioprocess: Processed ${pcmBuffer.byteLength} bytes. About to call onDataAvailableRef.current.`);
-
-//                     if (onDataAvailableRef.current) {
-//                         // *** CONFIRM THE CALL ***
-//                         onDataAvailableRef.current(pcmBuffer);
-//                     } else {
-//                         // *** LOG IF HANDLER MISSING ***
-//                         console.warn('[useAudioRecorder] onaudioprocess: onDataAvailableRef.current is null or undefined!');
-//                     }
-//                 } catch (pe) {
-//                     console.error("[useAudioRecorder] Processing Error:", pe);
-//                     setError(`Audio processing failed: ${pe instanceof Error ? pe.message : String(pe)}`);
-//                     stopAudioNodes();
-//                     setIsRecording(false);
-//                 }
-//             };
-
-//             sourceNodeMic.connect(processorNode);
-//             processorNode.connect(audioContext.destination);
-//             audioProcessingNodes.current = { sourceNode: sourceNodeMic, processorNode: processorNode };
-//             console.log('[useAudioRecorder] Recording started.');
-
-//         } catch (err) {
-//             console.error('[useAudioRecorder] Start Recording Error:', err);
-//              let userMessage = `Recording start failed: ${err instanceof Error ? err.message : String(err)}`;
-//              if (err instanceof Error) {
-//                  if (err.name === 'NotAllowedError' || err.name === 'SecurityError') {
-//                      userMessage = 'Microphone access denied. Please allow access and refresh.';
-//                  } else if (err.name === 'NotFoundError') {
-//                       userMessage = 'No microphone found.';
-//                  }
-//              }
-//             setError(userMessage);
-//             setIsRecording(false); // Revert state on error
-//             stopAudioNodes(); // Ensure cleanup
-//         }
-//     }, [isRecording, audioContext, targetSampleRate, stopAudioNodes]); // Added stopAudioNodes dependency
-
-//     const stopRecording = useCallback(() => {
-//         if (!isRecording) {
-//             // console.log('[useAudioRecorder] Not recording.');
-//             return;
-//         }
-//         console.log('[useAudioRecorder] Stopping recording...');
-//         setIsRecording(false); // Set state first
-//         stopAudioNodes(); // Then perform cleanup
-//         console.log('[useAudioRecorder] Recording stopped.');
-//     }, [isRecording, stopAudioNodes]); // Added isRecording dependency
-
-//     // Cleanup effect for unmount
-//     useEffect(() => {
-//         return () => {
-//             console.log("[useAudioRecorder] Cleaning up on unmount...");
-//              // Ensure recording is stopped if component unmounts while recording
-//              if (isRecording) {
-//                 stopAudioNodes();
-//              }
-//         };
-//     }, [isRecording, stopAudioNodes]); // Add isRecording dependency
-
-
-//     return {
-//         isRecording,
-//         startRecording,
-//         stopRecording,
-//         error
-//     };
-// }
\ No newline at end of file
@@ -0,0 +1,75 @@
+// hooks/useConnectionProfiles.ts
+import { useState, useCallback } from 'react';
+import {
+  ConnectionProfile,
+  DEFAULT_PROFILE_ID,
+  createDefaultProfile,
+  loadActiveProfileId,
+  loadProfiles,
+  profileFromQueryString,
+  saveActiveProfileId,
+  saveProfiles,
+} from '../utils/connectionProfiles';
+
+export interface UseConnectionProfilesReturn {
+  profiles: ConnectionProfile[]; // stored ones
+  activeProfile: ConnectionProfile;
+  urlOverride: ConnectionProfile | null; // set when the page URL picked the backend
+  selectProfile: (id: string) => void;
+  saveProfile: (profile: ConnectionProfile) => void; // add or replace by id
+  deleteProfile: (id: string) => void;
+}
+
+export function useConnectionProfiles(): UseConnectionProfilesReturn {
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>(loadProfiles);
+  const [activeId, setActiveId] = useState<string>(() => loadActiveProfileId() ?? DEFAULT_PROFILE_ID);
+  // Read once: the query string only counts for the visit it came with
+  const [urlOverride, setUrlOverride] = useState<ConnectionProfile | null>(() => {
+    const stored = loadProfiles();
+    const fallback = stored.find((p) => p.id === loadActiveProfileId()) ?? stored[0];
+    return profileFromQueryString(window.location.search, stored, fallback);
+  });
+
+  const storedActive = profiles.find((p) => p.id === activeId) ?? profiles[0];
+  const activeProfile = urlOverride ?? storedActive;
+
+  const updateProfiles = useCallback((next: ConnectionProfile[]) => {
+    const list = next.length ? next : [createDefaultProfile()];
+    saveProfiles(list);
+    setProfiles(list);
+  }, []);
+
+  const selectProfile = useCallback((id: string) => {
+    if (urlOverride) {
+      // picking a stored profile ends the override, and a reload shouldn't bring it back
+      setUrlOverride(null);
+      window.history.replaceState(null, '', window.location.pathname + window.location.hash);
+    }
+    saveActiveProfileId(id);
+    setActiveId(id);
+  }, [urlOverride]);
+
+  const saveProfile = useCallback((profile: ConnectionProfile) => {
+    const exists = profiles.some((p) => p.id === profile.id);
+    updateProfiles(exists ? profiles.map((p) => (p.id === profile.id ? profile : p)) : [...profiles, profile]);
+  }, [profiles, updateProfiles]);
+
+  const deleteProfile = useCallback((id: string) => {
+    const remaining = profiles.filter((p) => p.id !== id);
+    updateProfiles(remaining);
+    if (id === activeId) {
+      const nextId = remaining[0]?.id ?? DEFAULT_PROFILE_ID;
+      saveActiveProfileId(nextId);
+      setActiveId(nextId);
+    }
+  }, [profiles, activeId, updateProfiles]);
+
+  return {
+    profiles,
+    activeProfile,
+    urlOverride,
+    selectProfile,
+    saveProfile,
+    deleteProfile,
+  };
+}
@@ -0,0 +1,175 @@
+// hooks/useConversationHistory.ts
+import { useState, useRef, useCallback, useEffect } from 'react';
+import {
+  ConversationSummary,
+  StorageUsage,
+  createConversation,
+  deleteConversation as deleteStoredConversation,
+  getStorageUsage,
+  importConversation as importStoredConversation,
+  listConversations,
+  loadMessages,
+  renameConversation as renameStoredConversation,
+  requestPersistentStorage,
+  saveMessages,
+} from '../utils/conversationStore';
+
+const LAST_CONVERSATION_KEY = 'lastConversationId';
+
+export interface UseConversationHistoryReturn {
+  conversationId: string | null;
+  conversations: ConversationSummary[];
+  storageUsage: StorageUsage | null;
+  isRestoring: boolean;
+  error: string | null;
+  selectConversation: (id: string) => Promise<void>;
+  newConversation: () => Promise<void>;
+  renameConversation: (id: string, title: string) => Promise<void>;
+  deleteConversation: (id: string) => Promise<void>;
+  importConversation: (title: string, messages: Message[]) => Promise<void>;
+}
+
+// Mirrors `messages` into IndexedDB and restores the last session on load.
+export function useConversationHistory(
+  messages: Message[],
+  setMessages: React.Dispatch<React.SetStateAction<Message[]>>
+): UseConversationHistoryReturn {
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Read from async writers, so kept in refs as well
+  const conversationIdRef = useRef<string | null>(null);
+  // Last persisted version of each message, to write only what changed
+  const savedMessages = useRef<Map<string, Message>>(new Map());
+  // Writes are chained so a conversation is never created twice
+  const writeQueue = useRef<Promise<void>>(Promise.resolve());
+
+  const setActiveId = useCallback((id: string | null) => {
+    conversationIdRef.current = id;
+    setConversationId(id);
+    if (id) localStorage.setItem(LAST_CONVERSATION_KEY, id);
+    else localStorage.removeItem(LAST_CONVERSATION_KEY);
+  }, []);
+
+  const activate = useCallback((id: string | null, loaded: Message[]) => {
+    setActiveId(id);
+    savedMessages.current = new Map(loaded.map((m) => [m.id, m]));
+  }, [setActiveId]);
+
+  const refreshList = useCallback(async () => {
+    setConversations(await listConversations());
+    setStorageUsage(await getStorageUsage());
+  }, []);
+
+  // ─── Restore last session ──────────────────────────────
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        requestPersistentStorage().catch(() => {});
+        const list = await listConversations();
+        const lastId = localStorage.getItem(LAST_CONVERSATION_KEY);
+        if (cancelled) return;
+        setConversations(list);
+        if (lastId && list.some((c) => c.id === lastId)) {
+          const restored = await loadMessages(lastId);
+          if (cancelled) return;
+          activate(lastId, restored);
+          // keep anything that arrived while we were reading
+          setMessages((current) => [...restored, ...current]);
+          console.log(`[useConversationHistory] Restored ${restored.length} messages.`);
+        }
+        setStorageUsage(await getStorageUsage());
+      } catch (e) {
+        console.error('[useConversationHistory] Restore failed:', e);
+        setError(`History unavailable: ${e instanceof Error ? e.message : String(e)}`);
+      } finally {
+        if (!cancelled) setIsRestoring(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [activate, setMessages]);
+
+  // ─── Persist changes ───────────────────────────────────
+  useEffect(() => {
+    if (isRestoring) return;
+    const changed = messages.filter((m) => savedMessages.current.get(m.id) !== m);
+    if (changed.length === 0) return;
+    changed.forEach((m) => savedMessages.current.set(m.id, m));
+
+    writeQueue.current = writeQueue.current.then(async () => {
+      try {
+        let id = conversationIdRef.current;
+        if (!id) {
+          id = (await createConversation()).id;
+          setActiveId(id);
+        }
+        await saveMessages(id, changed, messages);
+        await refreshList();
+      } catch (e) {
+        console.error('[useConversationHistory] Save failed:', e);
+        setError(`Could not save conversation: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    });
+  }, [messages, isRestoring, setActiveId, refreshList]);
+
+  // ─── Sidebar actions ───────────────────────────────────
+  const selectConversation = useCallback(async (id: string) => {
+    await writeQueue.current; // let pending writes of the current one land first
+    try {
+      const loaded = await loadMessages(id);
+      activate(id, loaded);
+      setMessages(loaded);
+    } catch (e) {
+      setError(`Could not open conversation: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, [activate, setMessages]);
+
+  const newConversation = useCallback(async () => {
+    await writeQueue.current; // a pending write still belongs to the current one
+    // created lazily once the first message arrives
+    activate(null, []);
+    setMessages([]);
+  }, [activate, setMessages]);
+
+  const renameConversation = useCallback(async (id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    await renameStoredConversation(id, trimmed);
+    await refreshList();
+  }, [refreshList]);
+
+  const deleteConversation = useCallback(async (id: string) => {
+    await writeQueue.current;
+    await deleteStoredConversation(id);
+    if (conversationIdRef.current === id) await newConversation();
+    await refreshList();
+  }, [newConversation, refreshList]);
+
+  // Imported conversations open straight away
+  const importConversation = useCallback(async (title: string, imported: Message[]) => {
+    await writeQueue.current;
+    const summary = await importStoredConversation(title, imported);
+    activate(summary.id, imported);
+    setMessages(imported);
+    await refreshList();
+  }, [activate, setMessages, refreshList]);
+
+  return {
+    conversationId,
+    conversations,
+    storageUsage,
+    isRestoring,
+    error,
+    selectConversation,
+    newConversation,
+    renameConversation,
+    deleteConversation,
+    importConversation,
+  };
+}
@@ -0,0 +1,44 @@
+// hooks/useMediaDevices.ts
+import { useState, useEffect, useCallback } from 'react';
+
+interface UseMediaDevicesReturn {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+  // Browsers hide device labels until mic permission has been granted once
+  hasLabels: boolean;
+  refresh: () => Promise<void>;
+}
+
+// Audio devices currently plugged in, kept up to date through `devicechange`
+export function useMediaDevices(): UseMediaDevicesReturn {
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      // 'default' / 'communications' are aliases of real devices; '' is offered as "System default"
+      const real = devices.filter((d) => d.deviceId && d.deviceId !== 'default' && d.deviceId !== 'communications');
+      setInputs(real.filter((d) => d.kind === 'audioinput'));
+      setOutputs(real.filter((d) => d.kind === 'audiooutput'));
+    } catch (e) {
+      console.warn('[useMediaDevices] enumerateDevices failed:', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+    refresh();
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return {
+    inputs,
+    outputs,
+    hasLabels: [...inputs, ...outputs].some((d) => d.label),
+    refresh,
+  };
+}
@@ -1,9 +1,32 @@
 // hooks/useServerEvents.ts
 import { useCallback, useRef } from 'react';
+import { concatArrayBuffers } from '../utils/audio';
+import { createMessageId } from '../utils/conversationStore';
+import type { SessionTracker } from './useSession';
+import {
+  HelloAckMessage,
+  isCompatibleVersion,
+  parseServerMessage,
+  PROTOCOL_VERSION,
+  ProtocolDiagnostic,
+  ServerEvent,
+} from '../protocol';
+
+// Closed reply ids kept for dropping stragglers. A session that keeps
+// resuming lives as long as the tab; stragglers turn up right after the
+// close, so the last few dozen are plenty.
+const CLOSED_RESPONSES_KEPT = 64;
+
+// What has arrived so far of one AI reply
+interface ResponseState {
+  text: string;
+  chunks: ArrayBuffer[];
+}
 
 export default function useServerEvents(
   isAISpeaking: boolean,
-  playAudio: (buf: ArrayBuffer) => Promise<void>,
+  enqueueAudioChunk: (chunk: ArrayBuffer) => void,
+  endAudioStream: () => void,
   stopPlayback: () => void,
   isAIReady: boolean,
   setStatusMessage: (s: string) => void,
@@ -12,88 +35,316 @@ export default function useServerEvents(
   setCurrentUtterance: React.Dispatch<React.SetStateAction<string>>,
   setLastRawAudioBuffer: React.Dispatch<
     React.SetStateAction<ArrayBuffer | null>
-  >
+  >,
+  onDiagnostic: (d: ProtocolDiagnostic) => void,
+  setUserPartialTranscript: React.Dispatch<React.SetStateAction<string>>,
+  takeUserAudio: () => RecordedUtterance | undefined,
+  audioSampleRate: number, // wire rate, recorded on messages that keep audio
+  session: SessionTracker
 ) {
-  const currentChunks = useRef<ArrayBuffer[]>([]);
+  // replies still arriving, by responseId; a reply from a server that sends
+  // no ids gets a local one when it starts
+  const responses = useRef(new Map<string, ResponseState>());
+  // ended, interrupted or skipped: whatever is still in flight for these,
+  // stragglers after the end included, is dropped
+  const closedResponses = useRef(new Set<string>());
+  // the newest reply: it plays, shows as the current utterance and takes the
+  // frames that name no reply
+  const latestResponse = useRef<{ id: string; fromServer: boolean } | null>(null);
+  // named by the last `audio` frame; until one comes, audio goes to the latest reply
+  const audioResponseId = useRef<string | null>(null);
+  const localResponseCount = useRef(0);
+  // cancelled before it started: drop the next reply as a whole
+  const skipNextResponse = useRef(false);
+
+  const markClosed = useCallback((id: string) => {
+    const closed = closedResponses.current;
+    closed.add(id);
+    if (closed.size > CLOSED_RESPONSES_KEPT) closed.delete(closed.values().next().value!);
+  }, []);
+
+  // Where a text delta or audio frame goes: the reply it names, else the
+  // latest one. Null (drop it) when that reply is closed or there is none.
+  const collectorFor = useCallback((responseId: string | undefined): [string, ResponseState] | null => {
+    const id = responseId ?? latestResponse.current?.id;
+    if (id === undefined || closedResponses.current.has(id)) return null;
+    let state = responses.current.get(id);
+    if (!state) {
+      // ahead of its AIResponseStart
+      state = { text: '', chunks: [] };
+      responses.current.set(id, state);
+    }
+    return [id, state];
+  }, []);
+
+  // Turns the part of a reply received so far into a message and stops
+  // collecting; `extra` says why it ended early.
+  const commitPartialResponse = useCallback(
+    (id: string, extra: Pick<Message, 'interrupted' | 'incomplete' | 'cancelled'>) => {
+      const state = responses.current.get(id) ?? { text: '', chunks: [] };
+      responses.current.delete(id);
+      markClosed(id);
+      const text = state.text.trim() || '[Audio only]';
+      const audio = state.chunks.length ? concatArrayBuffers(state.chunks) : undefined;
+      setMessages((msgs) => [
+        ...msgs,
+        {
+          id: createMessageId('ai'),
+          sender: 'ai',
+          text,
+          audioBuffer: audio,
+          sampleRate: audio ? audioSampleRate : undefined,
+          timestamp: Date.now(),
+          ...extra,
+        },
+      ]);
+      if (latestResponse.current?.id === id) {
+        setLastRawAudioBuffer(audio ?? null);
+        setCurrentUtterance('');
+      }
+    },
+    [setMessages, setLastRawAudioBuffer, setCurrentUtterance, audioSampleRate, markClosed]
+  );
+
+  // Called when the user talks over the AI, or stops it (`cancelled`).
+  // Playback has already been stopped; record in the transcript how far the
+  // reply got. Returns the server's id for the reply, if it gave one.
+  const endResponseEarly = useCallback(
+    (interruption: PlaybackInterruption, cancelled: boolean): string | undefined => {
+      const extra = cancelled ? { interrupted: interruption, cancelled } : { interrupted: interruption };
+      const latest = latestResponse.current;
+      setStatusMessage(cancelled ? 'AI response stopped' : 'AI interrupted');
+      if (latest && responses.current.has(latest.id)) {
+        // reply still arriving: commit what we have and ignore the rest
+        commitPartialResponse(latest.id, extra);
+      } else if (cancelled && !isAISpeaking) {
+        // nothing of it here yet
+        skipNextResponse.current = true;
+        return undefined;
+      } else {
+        // reply fully received, only its playback was cut short
+        setMessages((msgs) => {
+          const idx = msgs.map((m) => m.sender).lastIndexOf('ai');
+          if (idx === -1) return msgs;
+          const next = [...msgs];
+          next[idx] = { ...next[idx], ...extra };
+          return next;
+        });
+      }
+      return latest?.fromServer ? latest.id : undefined;
+    },
+    [isAISpeaking, commitPartialResponse, setMessages, setStatusMessage]
+  );
+
+  const interruptResponse = useCallback(
+    (interruption: PlaybackInterruption) => endResponseEarly(interruption, false),
+    [endResponseEarly]
+  );
+
+  const cancelResponse = useCallback(
+    (interruption: PlaybackInterruption) => endResponseEarly(interruption, true),
+    [endResponseEarly]
+  );
+
+  // A new user turn went out, so the next reply is wanted even if the last
+  // one was cancelled before it began
+  const expectResponse = useCallback(() => {
+    skipNextResponse.current = false;
+  }, []);
+
+  // After a reconnect: a resumed session replays what was missed, so a reply
+  // that was mid-flight simply carries on. Otherwise the rest of it is never
+  // coming; keep the part that arrived rather than dropping it.
+  const settleHandshake = useCallback(
+    (ack: HelloAckMessage | null) => {
+      const resumed = session.completeHandshake(ack);
+      if (resumed) {
+        setIsAIReady(true);
+        setStatusMessage(responses.current.size ? 'Resuming AI response...' : 'Session resumed');
+        return;
+      }
+      for (const id of [...responses.current.keys()]) commitPartialResponse(id, { incomplete: true });
+      closedResponses.current.clear();
+      latestResponse.current = null;
+      audioResponseId.current = null;
+      skipNextResponse.current = false;
+    },
+    [session, commitPartialResponse, setIsAIReady, setStatusMessage]
+  );
 
   const handleEvent = useCallback(
-    (name: string, data: ServerEventDataBase | ServerEventAIResponseEnd) => {
-      switch (name) {
+    (event: ServerEvent) => {
+      // a server without helloAck goes straight to AIConnected
+      if (event.name === 'AIConnected' && session.isHandshakePending()) settleHandshake(null);
+      session.noteSessionId(event.sessionId);
+      switch (event.name) {
         case 'AIConnected':
           setIsAIReady(true);
           setStatusMessage('AI Ready');
           break;
 
-        case 'AIResponseStart':
-          setCurrentUtterance('');
+        case 'AIResponseStart': {
+          const id = event.responseId ?? `local-${++localResponseCount.current}`;
+          latestResponse.current = { id, fromServer: event.responseId !== undefined };
+          if (skipNextResponse.current) {
+            skipNextResponse.current = false;
+            responses.current.delete(id);
+            markClosed(id);
+            break;
+          }
+          if (closedResponses.current.has(id)) break;
+          // frames that overtook the start were held back until now
+          const early = responses.current.get(id);
+          responses.current.set(id, early ?? { text: '', chunks: [] });
+          setCurrentUtterance(early?.text ?? '');
           setStatusMessage('AI Thinking...');
-          currentChunks.current = [];
           setLastRawAudioBuffer(null);
           if (isAISpeaking) stopPlayback();
+          early?.chunks.forEach(enqueueAudioChunk);
           break;
+        }
 
         case 'AIResponseEnd': {
-          const evt = data as ServerEventAIResponseEnd;
-          const text = evt.finalText?.trim() || '[Audio only]';
+          const id = event.responseId ?? latestResponse.current?.id;
+          if (id === undefined || closedResponses.current.has(id)) break;
+          const state = responses.current.get(id) ?? { text: '', chunks: [] };
+          responses.current.delete(id);
+          markClosed(id);
+          const text = event.finalText?.trim() || '[Audio only]';
+          // audio already streamed; keep the whole response for replay and download
+          const audio = state.chunks.length ? concatArrayBuffers(state.chunks) : undefined;
           setMessages((msgs) => [
             ...msgs,
-            { id: `ai-${Date.now()}`, sender: 'ai', text, timestamp: Date.now() },
+            { id: createMessageId('ai'), sender: 'ai', text, audioBuffer: audio, sampleRate: audio ? audioSampleRate : undefined, timestamp: Date.now() },
           ]);
+          // a reply overtaken by a newer one never reached the player
+          if (latestResponse.current?.id !== id) break;
           setCurrentUtterance('');
-          if (currentChunks.current.length) {
-            // concatenate & play
-            const total = currentChunks.current.reduce(
-              (sum, b) => sum + b.byteLength,
-              0
-            );
-            const buf = new ArrayBuffer(total);
-            const v = new Uint8Array(buf);
-            let offset = 0;
-            for (const c of currentChunks.current) {
-              v.set(new Uint8Array(c), offset);
-              offset += c.byteLength;
-            }
-            setLastRawAudioBuffer(buf);
-            playAudio(buf).catch((e) => setStatusMessage(`Playback Error: ${e}`));
+          if (audio) {
+            setLastRawAudioBuffer(audio);
           } else {
             setStatusMessage(isAIReady ? 'AI Ready' : 'Connecting...');
             setLastRawAudioBuffer(null);
           }
-          currentChunks.current = [];
+          endAudioStream();
           break;
         }
       }
     },
     [
+      session,
+      settleHandshake,
       isAISpeaking,
-      playAudio,
+      enqueueAudioChunk,
+      endAudioStream,
       stopPlayback,
       isAIReady,
+      audioSampleRate,
       setStatusMessage,
       setIsAIReady,
       setMessages,
       setCurrentUtterance,
       setLastRawAudioBuffer,
+      markClosed,
     ]
   );
 
+  // Final user transcript: becomes a user message carrying the audio it was spoken in
+  const commitUserTranscript = useCallback(
+    (text: string) => {
+      const utterance = takeUserAudio();
+      const timestamp = utterance?.endedAt ?? Date.now();
+      const message: Message = {
+        id: createMessageId('user'),
+        sender: 'user',
+        text: text.trim() || '[Inaudible]',
+        audioBuffer: utterance?.audio,
+        sampleRate: utterance ? audioSampleRate : undefined,
+        timestamp,
+      };
+      // slot it in by time so a late transcript still lands before the AI's reply
+      setMessages((msgs) => {
+        const idx = msgs.findIndex((m) => m.timestamp > timestamp);
+        return idx === -1 ? [...msgs, message] : [...msgs.slice(0, idx), message, ...msgs.slice(idx)];
+      });
+    },
+    [takeUserAudio, setMessages, audioSampleRate]
+  );
+
   const handleMessage = useCallback(
     (evt: MessageEvent) => {
       if (typeof evt.data === 'string') {
-        const msg = JSON.parse(evt.data);
-        if (msg.type === 'event' && msg.name) {
-          handleEvent(msg.name, msg);
-        } else if (msg.type === 'textDelta') {
-          setCurrentUtterance((u) => u + msg.text);
-        } else if (msg.type === 'error') {
-          setStatusMessage(`Error: ${msg.message}`);
+        const result = parseServerMessage(evt.data);
+        if (!result.ok) {
+          console.warn('[useServerEvents] Protocol diagnostic:', result.diagnostic);
+          onDiagnostic(result.diagnostic);
+          return;
+        }
+        if (!session.acceptFrame(result.seq, false)) return; // replayed twice
+        const msg = result.message;
+        switch (msg.type) {
+          case 'event':
+            handleEvent(msg);
+            break;
+          case 'helloAck':
+            if (!isCompatibleVersion(msg.protocolVersion)) {
+              onDiagnostic({
+                kind: 'version',
+                detail: `Server speaks protocol v${msg.protocolVersion}, client expects v${PROTOCOL_VERSION}`,
+              });
+            }
+            settleHandshake(msg);
+            break;
+          case 'textDelta': {
+            const target = collectorFor(msg.responseId);
+            if (!target) return;
+            const [id, state] = target;
+            state.text += msg.text;
+            if (latestResponse.current?.id === id) setCurrentUtterance(state.text);
+            break;
+          }
+          case 'audio':
+            audioResponseId.current = msg.responseId;
+            break;
+          case 'userTranscript':
+            if (!msg.isFinal) {
+              setUserPartialTranscript(msg.text);
+              break;
+            }
+            setUserPartialTranscript('');
+            commitUserTranscript(msg.text);
+            break;
+          case 'pong':
+            break; // heartbeats are answered inside useWebSocket
+          case 'error':
+            setStatusMessage(`Error: ${msg.message}`);
+            break;
         }
       } else if (evt.data instanceof ArrayBuffer) {
-        currentChunks.current.push(evt.data);
+        session.acceptFrame(undefined, true);
+        const target = collectorFor(audioResponseId.current ?? undefined);
+        if (!target) return;
+        const [id, state] = target;
+        state.chunks.push(evt.data);
+        // older replies still arriving are kept for the transcript but not played
+        if (latestResponse.current?.id === id) enqueueAudioChunk(evt.data);
+      } else {
+        onDiagnostic({ kind: 'malformed', detail: 'Unexpected binary frame type (expected ArrayBuffer)' });
       }
     },
-    [handleEvent, setCurrentUtterance, setStatusMessage]
+    [
+      session,
+      handleEvent,
+      settleHandshake,
+      collectorFor,
+      commitUserTranscript,
+      enqueueAudioChunk,
+      setCurrentUtterance,
+      setUserPartialTranscript,
+      setStatusMessage,
+      onDiagnostic,
+    ]
   );
 
-  return { handleEvent, handleMessage };
+  return { handleEvent, handleMessage, interruptResponse, cancelResponse, expectResponse };
 }
@@ -0,0 +1,92 @@
+// hooks/useSession.ts
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { SESSION_ACK_INTERVAL_MS } from '../constants';
+import { createAck, encodeClientMessage, HelloAckMessage, ResumeRequest } from '../protocol';
+
+export interface SessionTracker {
+  // Counts a received frame; false means it was already seen (replay overlap)
+  acceptFrame: (seq: number | undefined, binary: boolean) => boolean;
+  // Resume request for the next hello, or undefined for a fresh session.
+  // Marks a resume as pending until the server answers.
+  beginHandshake: () => ResumeRequest | undefined;
+  // Settles the handshake: true when the server picked the old session back up
+  completeHandshake: (ack: HelloAckMessage | null) => boolean;
+  isHandshakePending: () => boolean;
+  noteSessionId: (id: string | undefined) => void;
+  reset: () => void; // forget the session, e.g. when switching backend
+}
+
+// Server-issued session id plus the last frame number received, so a dropped
+// connection can be resumed instead of starting over.
+export function useSession(isConnected: boolean, sendMessage: (data: string) => void): SessionTracker {
+  const sessionId = useRef<string | null>(null);
+  const lastSeq = useRef<number | null>(null); // null until the server numbers a frame
+  const ackedSeq = useRef(0);
+  const resumePending = useRef<ResumeRequest | null>(null);
+  const handshakePending = useRef(false);
+
+  const acceptFrame = useCallback((seq: number | undefined, binary: boolean) => {
+    if (seq === undefined) {
+      // audio frames are numbered implicitly, text frames without seq aren't numbered at all
+      if (binary && lastSeq.current !== null) lastSeq.current += 1;
+      return true;
+    }
+    if (lastSeq.current !== null && seq <= lastSeq.current) return false;
+    lastSeq.current = seq;
+    return true;
+  }, []);
+
+  const beginHandshake = useCallback(() => {
+    handshakePending.current = true;
+    resumePending.current = sessionId.current
+      ? { sessionId: sessionId.current, lastSeq: lastSeq.current ?? 0 }
+      : null;
+    return resumePending.current ?? undefined;
+  }, []);
+
+  const completeHandshake = useCallback((ack: HelloAckMessage | null) => {
+    const requested = resumePending.current;
+    resumePending.current = null;
+    handshakePending.current = false;
+    const resumed =
+      !!requested && !!ack?.resumed && (ack.sessionId === undefined || ack.sessionId === requested.sessionId);
+    if (!resumed) {
+      // new session: the server starts numbering again
+      sessionId.current = ack?.sessionId ?? null;
+      lastSeq.current = null;
+      ackedSeq.current = 0;
+    }
+    return resumed;
+  }, []);
+
+  const isHandshakePending = useCallback(() => handshakePending.current, []);
+
+  const noteSessionId = useCallback((id: string | undefined) => {
+    if (id) sessionId.current = id;
+  }, []);
+
+  const reset = useCallback(() => {
+    sessionId.current = null;
+    lastSeq.current = null;
+    ackedSeq.current = 0;
+    resumePending.current = null;
+    handshakePending.current = false;
+  }, []);
+
+  // Ack periodically rather than per frame; audio arrives every few ms
+  useEffect(() => {
+    if (!isConnected) return;
+    const timer = setInterval(() => {
+      if (handshakePending.current || lastSeq.current === null || lastSeq.current <= ackedSeq.current) return;
+      ackedSeq.current = lastSeq.current;
+      sendMessage(encodeClientMessage(createAck(lastSeq.current)));
+    }, SESSION_ACK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isConnected, sendMessage]);
+
+  // stable object: it sits in the dependency lists of the message handlers
+  return useMemo(
+    () => ({ acceptFrame, beginHandshake, completeHandshake, isHandshakePending, noteSessionId, reset }),
+    [acceptFrame, beginHandshake, completeHandshake, isHandshakePending, noteSessionId, reset]
+  );
+}
@@ -1,13 +1,133 @@
 // hooks/useWebSocket.ts
 import { useState, useRef, useCallback, useEffect } from 'react';
+import {
+  AUTH_REFRESH_MARGIN_MS,
+  AUTH_REFRESH_RETRY_MS,
+  HEARTBEAT_INTERVAL_MS,
+  HEARTBEAT_LATENCY_SAMPLES,
+  HEARTBEAT_TIMEOUT_MS,
+  LATENCY_DEGRADED_MS,
+  LATENCY_GOOD_MS,
+  RECONNECT_BASE_DELAY_MS,
+  RECONNECT_MAX_ATTEMPTS,
+  RECONNECT_MAX_DELAY_MS,
+  OUTBOUND_DRAIN_POLL_MS,
+  OUTBOUND_HIGH_WATER_BYTES,
+  OUTBOUND_QUEUE_MAX_AGE_MS,
+  OUTBOUND_QUEUE_MAX_AUDIO_MS,
+} from '../constants';
+import { AUTH_CLOSE_CODES, createPing, encodeClientMessage, isAuthCloseCode, parsePong } from '../protocol';
+import { AuthCredential, AuthProvider, applyCredential, encodeAuthFrame } from '../utils/auth';
+
+type OutboundData = string | ArrayBuffer | Blob;
+
+// Frames sent with `{ queue: true }` wait here while the socket is down, the
+// caller hasn't released the queue yet, or the socket's own buffer is full.
+export interface OutboundQueueOptions {
+  maxAudioMs: number; // oldest frames are dropped once more audio than this is held
+  maxAgeMs: number; // frames held longer than this are dropped
+  highWaterMark: number; // bufferedAmount above which frames wait here instead
+}
+
+// Amounts of audio, going by the duration each frame was queued with
+export interface OutboundQueueState {
+  queuedMs: number;
+  droppedMs: number; // since the connection was last released for sending
+}
+
+export interface SendOptions {
+  queue?: boolean; // hold the frame until it can go, rather than sending or dropping it now
+  durationMs?: number; // audio the frame carries, for the queue's cap and counts
+}
+
+interface QueuedFrame {
+  data: OutboundData;
+  durationMs: number;
+  queuedAt: number;
+}
+
+const DEFAULT_OUTBOUND_OPTIONS: OutboundQueueOptions = {
+  maxAudioMs: OUTBOUND_QUEUE_MAX_AUDIO_MS,
+  maxAgeMs: OUTBOUND_QUEUE_MAX_AGE_MS,
+  highWaterMark: OUTBOUND_HIGH_WATER_BYTES,
+};
+
+export interface HeartbeatOptions {
+  intervalMs: number;
+  timeoutMs: number; // no pong for this long forces a reconnect
+}
+
+export type ConnectionQuality = 'good' | 'degraded' | 'bad';
+
+export interface ConnectionHealth {
+  quality: ConnectionQuality | null; // null until the server answers a ping
+  latencyMs: number | null; // rolling average round trip
+}
+
+// Retries after an unexpected close: exponential, capped, and with full jitter
+// (a random delay between 0 and the backoff) so clients don't stampede a
+// backend that just came back.
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+}
+
+export interface ReconnectState {
+  attempt: number; // retries so far in this outage
+  nextAttemptAt: number | null; // ms since epoch of the pending retry
+  gaveUp: boolean; // attempts exhausted; only retryNow() or connect() try again
+  offline: boolean; // the browser reports no network
+}
+
+export interface UseWebSocketOptions {
+  outbound?: Partial<OutboundQueueOptions>;
+  heartbeat?: Partial<HeartbeatOptions>;
+  reconnect?: Partial<ReconnectPolicy>;
+}
+
+const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: RECONNECT_MAX_ATTEMPTS,
+  baseDelayMs: RECONNECT_BASE_DELAY_MS,
+  maxDelayMs: RECONNECT_MAX_DELAY_MS,
+  jitter: true,
+};
+
+export function reconnectDelay(policy: ReconnectPolicy, attempt: number): number {
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return policy.jitter ? Math.random() * backoff : backoff;
+}
+
+const DEFAULT_HEARTBEAT_OPTIONS: HeartbeatOptions = {
+  intervalMs: HEARTBEAT_INTERVAL_MS,
+  timeoutMs: HEARTBEAT_TIMEOUT_MS,
+};
+
+// Close code used locally when the heartbeat gives up on a socket
+export const HEARTBEAT_TIMEOUT_CLOSE_CODE = 4000;
+
+const rateLatency = (latencyMs: number, overdue: boolean): ConnectionQuality =>
+  latencyMs >= LATENCY_DEGRADED_MS ? 'bad' : overdue || latencyMs >= LATENCY_GOOD_MS ? 'degraded' : 'good';
+
+const NO_HEALTH: ConnectionHealth = { quality: null, latencyMs: null };
+
+const frameSize = (data: OutboundData) =>
+  data instanceof ArrayBuffer ? data.byteLength : data instanceof Blob ? data.size : data.length;
 
 export interface UseWebSocketReturn {
   connect: () => void;
   disconnect: (code?: number, reason?: string) => void;
-  sendMessage: (data: string | ArrayBuffer | Blob) => void;
+  sendMessage: (data: OutboundData, options?: SendOptions) => void;
+  setOutboundReady: (ready: boolean) => void; // queued frames flush once the caller is ready
+  outbound: OutboundQueueState;
+  health: ConnectionHealth;
+  reconnect: ReconnectState;
+  retryNow: () => void; // skip the wait, or start over after giving up
   isConnected: boolean;
   isConnecting: boolean;
   error: string | null;
+  authFailed: boolean; // last close was an auth rejection; no retries until connect()
   setOnMessageHandler: (h: (e: MessageEvent) => void) => void;
   setOnOpenHandler: (h: () => void) => void;
   setOnCloseHandler: (h: (e: CloseEvent) => void) => void;
@@ -15,15 +135,57 @@ export interface UseWebSocketReturn {
   readyState: number | undefined;
 }
 
-export function useWebSocket(url: string): UseWebSocketReturn {
+// Changing `url`, `protocols` or `auth` closes the current socket cleanly; the
+// caller's connect flow then opens one to the new endpoint. With an auth
+// provider every attempt fetches a credential first, and refreshable ones are
+// renewed in-band before they expire.
+export function useWebSocket(
+  url: string,
+  protocols: string[] = [],
+  auth: AuthProvider | null = null,
+  options: UseWebSocketOptions = {}
+): UseWebSocketReturn {
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [authFailed, setAuthFailed] = useState(false);
 
   const ws = useRef<WebSocket | null>(null);
+  const authRef = useRef(auth);
+  authRef.current = auth;
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const expiredRetried = useRef(false); // one fresh-credential attempt until a refresh succeeds
   const retryCount = useRef(0);
-  const maxRetries = 5;
-  const baseDelayMs = 1000;
+
+  const queueOptions = useRef(DEFAULT_OUTBOUND_OPTIONS);
+  queueOptions.current = { ...DEFAULT_OUTBOUND_OPTIONS, ...options.outbound };
+  const queue = useRef<QueuedFrame[]>([]);
+  const queuedMs = useRef(0);
+  const droppedMs = useRef(0);
+  const outboundReady = useRef(false);
+  const drainTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [outbound, setOutbound] = useState<OutboundQueueState>({ queuedMs: 0, droppedMs: 0 });
+
+  const heartbeatOptions = useRef(DEFAULT_HEARTBEAT_OPTIONS);
+  heartbeatOptions.current = { ...DEFAULT_HEARTBEAT_OPTIONS, ...options.heartbeat };
+  const heartbeatTimer = useRef<ReturnType<typeof setInterval> | null>(null);
+  const pendingPings = useRef(new Map<number, number>()); // id → sent at
+  const nextPingId = useRef(0);
+  const lastPongAt = useRef<number | null>(null); // null: no timeout running on this socket
+  const answersPings = useRef(false); // this endpoint has answered a ping before
+  const latencySamples = useRef<number[]>([]);
+  const [health, setHealth] = useState<ConnectionHealth>(NO_HEALTH);
+  const reconnectPolicy = useRef(DEFAULT_RECONNECT_POLICY);
+  reconnectPolicy.current = { ...DEFAULT_RECONNECT_POLICY, ...options.reconnect };
+  const retriesSuppressed = useRef(false); // set for closes we asked for
+  const awaitingReconnect = useRef(false); // an unexpected close hasn't been recovered from yet
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [reconnect, setReconnect] = useState<ReconnectState>(() => ({
+    attempt: 0,
+    nextAttemptAt: null,
+    gaveUp: false,
+    offline: typeof navigator !== 'undefined' && navigator.onLine === false,
+  }));
 
   // user‑provided handlers
   const onOpenHandler = useRef<(() => void) | null>(null);
@@ -31,19 +193,227 @@ export function useWebSocket(url: string): UseWebSocketReturn {
   const onMessageHandler = useRef<((e: MessageEvent) => void) | null>(null);
   const onErrorHandler = useRef<((e: Event) => void) | null>(null);
 
+  // protocols arrive as a fresh array each render; compare by content
+  const protocolsKey = protocols.join(',');
+
+  const clearRefresh = useCallback(() => {
+    if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    refreshTimer.current = null;
+  }, []);
+
+  // Renew the credential ahead of expiry and hand it to the open socket; the
+  // conversation carries on over the same connection.
+  const scheduleRefresh = useCallback((socket: WebSocket, credential: AuthCredential) => {
+    clearRefresh();
+    const provider = authRef.current;
+    if (!provider?.refreshable || credential.expiresAt === undefined) return;
+    const refresh = async () => {
+      try {
+        const next = await provider.getCredential();
+        if (ws.current !== socket || socket.readyState !== WebSocket.OPEN) return;
+        socket.send(encodeAuthFrame(next));
+        console.log('[useWebSocket] credential refreshed');
+        expiredRetried.current = false;
+        scheduleRefresh(socket, next);
+      } catch (e) {
+        console.warn('[useWebSocket] credential refresh failed; retrying', e);
+        if (ws.current === socket) refreshTimer.current = setTimeout(refresh, AUTH_REFRESH_RETRY_MS);
+      }
+    };
+    const delay = Math.max(0, credential.expiresAt - Date.now() - AUTH_REFRESH_MARGIN_MS);
+    refreshTimer.current = setTimeout(refresh, delay);
+  }, [clearRefresh]);
+
+  const publishOutbound = useCallback(() => {
+    setOutbound({ queuedMs: queuedMs.current, droppedMs: droppedMs.current });
+  }, []);
+
+  // Enforce the caps, oldest first; audio that old is no use to the backend
+  const trimQueue = useCallback(() => {
+    const { maxAudioMs, maxAgeMs } = queueOptions.current;
+    const cutoff = Date.now() - maxAgeMs;
+    while (queue.current.length && (queuedMs.current > maxAudioMs || queue.current[0].queuedAt < cutoff)) {
+      const dropped = queue.current.shift()!;
+      queuedMs.current -= dropped.durationMs;
+      droppedMs.current += dropped.durationMs;
+    }
+  }, []);
+
+  // Send queued frames in order while the socket has room; poll while it doesn't
+  const flushQueue = useCallback(() => {
+    if (drainTimer.current) clearTimeout(drainTimer.current);
+    drainTimer.current = null;
+    const socket = ws.current;
+    if (!outboundReady.current || socket?.readyState !== WebSocket.OPEN) return;
+    trimQueue();
+    const { highWaterMark } = queueOptions.current;
+    while (queue.current.length && socket.bufferedAmount <= highWaterMark) {
+      const frame = queue.current.shift()!;
+      queuedMs.current -= frame.durationMs;
+      try {
+        socket.send(frame.data);
+      } catch (e) {
+        console.error('[useWebSocket] send error', e);
+        setError(`Send failed: ${e}`);
+      }
+    }
+    if (queue.current.length) drainTimer.current = setTimeout(flushQueue, OUTBOUND_DRAIN_POLL_MS);
+    publishOutbound();
+  }, [trimQueue, publishOutbound]);
+
+  const enqueue = useCallback((data: OutboundData, durationMs: number) => {
+    queue.current.push({ data, durationMs, queuedAt: Date.now() });
+    queuedMs.current += durationMs;
+    trimQueue();
+    publishOutbound();
+    if (!drainTimer.current) drainTimer.current = setTimeout(flushQueue, OUTBOUND_DRAIN_POLL_MS);
+  }, [trimQueue, publishOutbound, flushQueue]);
+
+  const setOutboundReady = useCallback((ready: boolean) => {
+    if (!ready && outboundReady.current) {
+      // a new outage; a backpressure hold while ready keeps the count, so
+      // the notice stays up until the user has had a chance to see it
+      droppedMs.current = 0;
+      publishOutbound();
+    }
+    outboundReady.current = ready;
+    if (ready) flushQueue();
+  }, [flushQueue, publishOutbound]);
+
+  const stopHeartbeat = useCallback(() => {
+    if (heartbeatTimer.current) clearInterval(heartbeatTimer.current);
+    heartbeatTimer.current = null;
+    pendingPings.current.clear();
+    lastPongAt.current = null;
+    latencySamples.current = [];
+    setHealth(NO_HEALTH);
+  }, []);
+
+  const averageLatency = () =>
+    latencySamples.current.reduce((sum, ms) => sum + ms, 0) / latencySamples.current.length;
+
+  const handlePong = useCallback((id: number) => {
+    const sentAt = pendingPings.current.get(id);
+    if (sentAt === undefined) return;
+    const now = performance.now();
+    // anything older than this pong is not coming back
+    for (const pending of pendingPings.current.keys()) if (pending <= id) pendingPings.current.delete(pending);
+    lastPongAt.current = now;
+    answersPings.current = true;
+    latencySamples.current = [...latencySamples.current, now - sentAt].slice(-HEARTBEAT_LATENCY_SAMPLES);
+    const latencyMs = averageLatency();
+    setHealth({ quality: rateLatency(latencyMs, false), latencyMs });
+  }, []);
+
+  // The browser may take minutes to notice a dead mobile connection; a silent
+  // server is given up on here and the socket goes through the normal retry path.
+  const startHeartbeat = useCallback((socket: WebSocket) => {
+    stopHeartbeat();
+    const { intervalMs, timeoutMs } = heartbeatOptions.current;
+    // a server known to answer is timed from the start, so a link that is
+    // half-dead straight after a reconnect doesn't wait for a first pong forever
+    if (answersPings.current) lastPongAt.current = performance.now();
+    heartbeatTimer.current = setInterval(() => {
+      if (ws.current !== socket || socket.readyState !== WebSocket.OPEN) return;
+      const now = performance.now();
+      if (lastPongAt.current !== null && now - lastPongAt.current > timeoutMs) {
+        console.warn(`[useWebSocket] no pong for ${Math.round(now - lastPongAt.current)}ms; reconnecting`);
+        const onclose = socket.onclose;
+        socket.onclose = null;
+        socket.onmessage = null;
+        socket.onerror = null;
+        socket.close(HEARTBEAT_TIMEOUT_CLOSE_CODE, 'Heartbeat timeout');
+        // don't wait for a close handshake that may never complete
+        onclose?.call(socket, new CloseEvent('close', { code: HEARTBEAT_TIMEOUT_CLOSE_CODE, reason: 'Heartbeat timeout' }));
+        return;
+      }
+      const waited = now - Math.min(...pendingPings.current.values());
+      if (lastPongAt.current !== null && waited > intervalMs) {
+        // a pong is overdue: don't call the link good while it may be stalling
+        setHealth({ quality: rateLatency(Math.max(averageLatency(), waited), true), latencyMs: averageLatency() });
+      }
+      const id = ++nextPingId.current;
+      pendingPings.current.set(id, now);
+      // a server that never answers mustn't grow this forever
+      if (pendingPings.current.size > HEARTBEAT_LATENCY_SAMPLES) {
+        pendingPings.current.delete(pendingPings.current.keys().next().value!);
+      }
+      socket.send(encodeClientMessage(createPing(id)));
+    }, intervalMs);
+  }, [stopHeartbeat]);
+
+  const clearRetry = useCallback(() => {
+    if (retryTimer.current) clearTimeout(retryTimer.current);
+    retryTimer.current = null;
+    setReconnect((r) => (r.nextAttemptAt === null && !r.gaveUp && r.attempt === 0 ? r : { ...r, attempt: 0, nextAttemptAt: null, gaveUp: false }));
+  }, []);
+
+  // retry timers outlive renders; always call the latest connect logic
+  const doConnectRef = useRef<(manual: boolean) => Promise<void>>(async () => {});
+
+  const scheduleRetry = useCallback((code: number) => {
+    const policy = reconnectPolicy.current;
+    const attempt = retryCount.current;
+    awaitingReconnect.current = true;
+    if (attempt >= policy.maxAttempts) {
+      console.error(`[useWebSocket] gave up after ${attempt} retries`);
+      setReconnect((r) => ({ ...r, nextAttemptAt: null, gaveUp: true }));
+      return;
+    }
+    if (!navigator.onLine) {
+      // nothing to gain until the network is back; the online listener retries
+      console.warn(`[useWebSocket] unexpected close (${code}) while offline; waiting for the network`);
+      setReconnect((r) => ({ ...r, nextAttemptAt: null, offline: true }));
+      return;
+    }
+    const delay = reconnectDelay(policy, attempt);
+    console.warn(`[useWebSocket] unexpected close (${code}); retry #${attempt + 1} in ${Math.round(delay)}ms`);
+    setReconnect((r) => ({ ...r, attempt: attempt + 1, nextAttemptAt: Date.now() + delay, gaveUp: false }));
+    retryTimer.current = setTimeout(() => {
+      retryTimer.current = null;
+      retryCount.current += 1;
+      setReconnect((r) => ({ ...r, nextAttemptAt: null }));
+      void doConnectRef.current(false);
+    }, delay);
+  }, []);
+
   // internal connect logic; `manual=true` resets retryCount
   const doConnect = useCallback(
-    (manual: boolean) => {
-      if (manual) retryCount.current = 0;
+    async (manual: boolean) => {
+      if (manual) {
+        retryCount.current = 0;
+        retriesSuppressed.current = false;
+        clearRetry();
+      }
 
       if (ws.current?.readyState === WebSocket.OPEN) return;
       if (isConnecting) return;
 
       setIsConnecting(true);
       setError(null);
+      setAuthFailed(false);
+
+      const provider = authRef.current;
+      let credential: AuthCredential | null = null;
+      if (provider) {
+        try {
+          credential = await provider.getCredential();
+        } catch (e) {
+          console.error('[useWebSocket] could not get a credential', e);
+          setError(`Authentication failed: ${e instanceof Error ? e.message : e}`);
+          setAuthFailed(true);
+          setIsConnecting(false);
+          return;
+        }
+      }
 
       try {
-        const socket = new WebSocket(url);
+        const endpoint = provider && credential
+          ? applyCredential(url, protocolsKey ? protocolsKey.split(',') : [], provider.transport, credential)
+          : { url, protocols: protocolsKey ? protocolsKey.split(',') : [] };
+        const socket = endpoint.protocols.length
+          ? new WebSocket(endpoint.url, endpoint.protocols)
+          : new WebSocket(endpoint.url);
         socket.binaryType = 'arraybuffer';
         ws.current = socket;
 
@@ -51,11 +421,25 @@ export function useWebSocket(url: string): UseWebSocketReturn {
           setIsConnected(true);
           setIsConnecting(false);
           retryCount.current = 0;
+          awaitingReconnect.current = false;
+          setReconnect((r) => ({ ...r, attempt: 0, nextAttemptAt: null, gaveUp: false }));
           setError(null);
+          if (provider && credential) {
+            if (provider.transport === 'firstFrame') socket.send(encodeAuthFrame(credential)); // ahead of hello
+            scheduleRefresh(socket, credential);
+          }
+          startHeartbeat(socket);
           onOpenHandler.current?.();
         };
 
         socket.onmessage = (evt) => {
+          if (typeof evt.data === 'string') {
+            const pongId = parsePong(evt.data);
+            if (pongId !== null) {
+              handlePong(pongId);
+              return;
+            }
+          }
           if (onMessageHandler.current) {
             onMessageHandler.current(evt);
           } else {
@@ -71,26 +455,30 @@ export function useWebSocket(url: string): UseWebSocketReturn {
         };
 
         socket.onclose = (evt) => {
+          // a socket superseded by a newer one (e.g. after switching backend)
+          // closing late says nothing about the live connection
+          if (ws.current !== socket) return;
           setIsConnected(false);
           setIsConnecting(false);
+          setOutboundReady(false); // held until the caller's handshake is done again
+          clearRefresh();
+          stopHeartbeat();
 
           const clean =
             evt.code === 1000 || evt.code === 1001 || evt.code === 1005;
-          if (!clean && retryCount.current < maxRetries) {
-            const delay = baseDelayMs * 2 ** retryCount.current;
-            console.warn(
-              `[useWebSocket] unexpected close (${evt.code}); retry #${
-                retryCount.current + 1
-              } in ${delay}ms`
-            );
-            setTimeout(() => {
-              retryCount.current += 1;
-              doConnect(false);
-            }, delay);
-          } else if (!clean) {
-            console.error(
-              `[useWebSocket] gave up after ${retryCount.current} retries`
-            );
+          if (isAuthCloseCode(evt.code)) {
+            // retrying the same credential is pointless. An expired one gets a
+            // single fresh attempt: authFailed stays false so the caller's
+            // connect flow reconnects, fetching a new token on the way.
+            if (evt.code === AUTH_CLOSE_CODES.expired && provider?.refreshable && !expiredRetried.current) {
+              expiredRetried.current = true;
+              console.warn('[useWebSocket] credential expired; reconnecting with a fresh one');
+            } else {
+              console.error(`[useWebSocket] authentication rejected (${evt.code})`);
+              setAuthFailed(true);
+            }
+          } else if (!clean && !retriesSuppressed.current) {
+            scheduleRetry(evt.code);
           }
 
           onCloseHandler.current?.(evt);
@@ -102,37 +490,83 @@ export function useWebSocket(url: string): UseWebSocketReturn {
         ws.current = null;
       }
     },
-    [url, isConnecting]
+    [url, protocolsKey, isConnecting, scheduleRefresh, clearRefresh, startHeartbeat, stopHeartbeat, handlePong, clearRetry, scheduleRetry, setOutboundReady]
   );
+  doConnectRef.current = doConnect;
 
   // public API
-  const connect = useCallback(() => doConnect(true), [doConnect]);
+  const connect = useCallback(() => {
+    void doConnect(true);
+  }, [doConnect]);
+
+  const retryNow = useCallback(() => {
+    if (ws.current?.readyState === WebSocket.OPEN || ws.current?.readyState === WebSocket.CONNECTING) return;
+    console.log('[useWebSocket] retrying now');
+    void doConnectRef.current(true);
+  }, []);
+
+  // Back online, or back in front of the user: a pending retry (or one we
+  // gave up on) is worth trying right away instead of waiting out the backoff.
+  useEffect(() => {
+    const retryIfWaiting = () => {
+      if (retriesSuppressed.current || !awaitingReconnect.current) return;
+      retryNow();
+    };
+    const handleOnline = () => {
+      setReconnect((r) => ({ ...r, offline: false }));
+      retryIfWaiting();
+    };
+    const handleOffline = () => {
+      if (retryTimer.current) clearTimeout(retryTimer.current);
+      retryTimer.current = null;
+      setReconnect((r) => ({ ...r, nextAttemptAt: null, offline: true }));
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible' && navigator.onLine) retryIfWaiting();
+    };
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [retryNow]);
 
   const disconnect = useCallback(
     (code = 1000, reason = 'User disconnect') => {
       // prevent further auto‑retries by forcing a clean close
-      retryCount.current = maxRetries;
+      retriesSuppressed.current = true;
+      awaitingReconnect.current = false;
+      clearRetry();
+      clearRefresh();
       if (ws.current?.readyState === WebSocket.OPEN) {
         ws.current.close(code, reason);
       }
     },
-    []
+    [clearRefresh, clearRetry]
   );
 
-  const sendMessage = useCallback((data: string | ArrayBuffer | Blob) => {
-    const ready = ws.current?.readyState;
-    console.log(
-      `[useWebSocket] sendMessage: state=${ready}, size=${
-        data instanceof ArrayBuffer
-          ? data.byteLength
-          : data instanceof Blob
-          ? data.size
-          : (data as string).length
-      }`
-    );
-    if (ws.current?.readyState === WebSocket.OPEN) {
+  const sendMessage = useCallback((data: OutboundData, options?: SendOptions) => {
+    const socket = ws.current;
+    const ready = socket?.readyState;
+    if (options?.queue) {
+      // keep order: once anything is waiting, new frames wait behind it
+      const blocked =
+        !outboundReady.current ||
+        ready !== WebSocket.OPEN ||
+        queue.current.length > 0 ||
+        socket!.bufferedAmount > queueOptions.current.highWaterMark;
+      if (blocked) {
+        enqueue(data, options.durationMs ?? 0);
+        return;
+      }
+    }
+    console.log(`[useWebSocket] sendMessage: state=${ready}, size=${frameSize(data)}`);
+    if (socket && ready === WebSocket.OPEN) {
       try {
-        ws.current.send(data);
+        socket.send(data);
       } catch (e) {
         console.error('[useWebSocket] send error', e);
         setError(`Send failed: ${e}`);
@@ -140,15 +574,46 @@ export function useWebSocket(url: string): UseWebSocketReturn {
     } else {
       console.warn(`[useWebSocket] cannot send, state ${ready}`);
     }
-  }, []);
+  }, [enqueue]);
+
+  // endpoint or auth switched: drop the old connection without triggering retries
+  const endpoint = `${url}|${protocolsKey}`;
+  const connectedEndpoint = useRef(endpoint);
+  const connectedAuth = useRef(auth);
+  useEffect(() => {
+    if (connectedEndpoint.current === endpoint && connectedAuth.current === auth) return;
+    connectedEndpoint.current = endpoint;
+    connectedAuth.current = auth;
+    clearRefresh();
+    expiredRetried.current = false;
+    answersPings.current = false; // the new backend may not do heartbeats
+    setAuthFailed(false); // new credentials deserve a fresh attempt
+    // held frames belong to the old backend's conversation
+    queue.current = [];
+    queuedMs.current = 0;
+    droppedMs.current = 0;
+    publishOutbound();
+    // a retry pending for the old endpoint is moot; the caller connects to the new one
+    awaitingReconnect.current = false;
+    clearRetry();
+    const socket = ws.current;
+    if (!socket || socket.readyState === WebSocket.CLOSING || socket.readyState === WebSocket.CLOSED) return;
+    console.log('[useWebSocket] endpoint changed, closing current socket');
+    retriesSuppressed.current = true;
+    socket.close(1000, 'Switching backend');
+  }, [endpoint, auth, clearRefresh, clearRetry, publishOutbound]);
 
   // cleanup on unmount
   useEffect(() => {
     return () => {
-      retryCount.current = maxRetries;
+      retriesSuppressed.current = true;
+      if (retryTimer.current) clearTimeout(retryTimer.current);
+      clearRefresh();
+      if (drainTimer.current) clearTimeout(drainTimer.current);
+      if (heartbeatTimer.current) clearInterval(heartbeatTimer.current);
       ws.current?.close(1001, 'Component unmount');
     };
-  }, []);
+  }, [clearRefresh]);
 
   // setters for user handlers
   const setOnOpenHandler = useCallback((h: () => void) => {
@@ -168,9 +633,15 @@ export function useWebSocket(url: string): UseWebSocketReturn {
     connect,
     disconnect,
     sendMessage,
+    setOutboundReady,
+    outbound,
+    health,
+    reconnect,
+    retryNow,
     isConnected,
     isConnecting,
     error,
+    authFailed,
     setOnMessageHandler,
     setOnOpenHandler,
     setOnCloseHandler,
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createHello,
+  describeAuthClose,
+  isAuthCloseCode,
+  isCompatibleVersion,
+  parsePong,
+  parseServerMessage,
+  PROTOCOL_VERSION,
+  ProtocolDiagnostic,
+  ServerMessage,
+} from './protocol';
+
+const parsed = (frame: object) => {
+  const result = parseServerMessage(JSON.stringify(frame));
+  if (!result.ok) throw new Error(`expected a message, got: ${result.diagnostic.detail}`);
+  return result.message;
+};
+
+const diagnostic = (raw: string): ProtocolDiagnostic => {
+  const result = parseServerMessage(raw);
+  if (result.ok) throw new Error(`expected a diagnostic, got a ${result.message.type} message`);
+  return result.diagnostic;
+};
+
+describe('parseServerMessage', () => {
+  const valid: [string, ServerMessage][] = [
+    ['AIConnected', { type: 'event', name: 'AIConnected', sessionId: 's1' }],
+    ['AIResponseStart', { type: 'event', name: 'AIResponseStart', responseId: 'r1' }],
+    ['AIResponseEnd', { type: 'event', name: 'AIResponseEnd', responseId: 'r1', finalText: 'Hi there' }],
+    ['helloAck', { type: 'helloAck', protocolVersion: 1, sessionId: 's1', resumed: true, codec: 'opus' }],
+    ['textDelta', { type: 'textDelta', text: 'Hi', responseId: 'r1' }],
+    ['audio', { type: 'audio', responseId: 'r1' }],
+    ['userTranscript', { type: 'userTranscript', text: 'hello', isFinal: false }],
+    ['pong', { type: 'pong', id: 7 }],
+    ['error', { type: 'error', message: 'Overloaded', code: 'busy' }],
+  ];
+
+  it.each(valid)('reads %s', (_, message) => {
+    expect(parsed(message)).toEqual(message);
+  });
+
+  it('leaves optional fields out when absent', () => {
+    expect(parsed({ type: 'event', name: 'AIResponseEnd' })).toEqual({ type: 'event', name: 'AIResponseEnd' });
+    expect(parsed({ type: 'helloAck', protocolVersion: 1 })).toEqual({ type: 'helloAck', protocolVersion: 1 });
+    expect(parsed({ type: 'textDelta', text: '' })).toEqual({ type: 'textDelta', text: '' });
+  });
+
+  it('drops fields it does not know', () => {
+    expect(parsed({ type: 'pong', id: 1, extra: true })).toEqual({ type: 'pong', id: 1 });
+  });
+
+  const malformed: [string, object][] = [
+    ['an event without a name', { type: 'event' }],
+    ['an event with a numeric sessionId', { type: 'event', name: 'AIConnected', sessionId: 1 }],
+    ['AIResponseStart with a numeric responseId', { type: 'event', name: 'AIResponseStart', responseId: 1 }],
+    ['AIResponseEnd with a non-string finalText', { type: 'event', name: 'AIResponseEnd', finalText: null }],
+    ['helloAck without protocolVersion', { type: 'helloAck' }],
+    ['helloAck with a string protocolVersion', { type: 'helloAck', protocolVersion: '1' }],
+    ['helloAck with a string resumed', { type: 'helloAck', protocolVersion: 1, resumed: 'yes' }],
+    ['helloAck with an unknown codec', { type: 'helloAck', protocolVersion: 1, codec: 'mp3' }],
+    ['textDelta without text', { type: 'textDelta' }],
+    ['textDelta with a numeric responseId', { type: 'textDelta', text: 'a', responseId: 2 }],
+    ['audio without responseId', { type: 'audio' }],
+    ['userTranscript without isFinal', { type: 'userTranscript', text: 'a' }],
+    ['userTranscript with numeric text', { type: 'userTranscript', text: 1, isFinal: true }],
+    ['pong with a string id', { type: 'pong', id: '1' }],
+    ['error without message', { type: 'error', code: 'x' }],
+    ['error with a numeric code', { type: 'error', message: 'x', code: 500 }],
+    ['a frame without type', { name: 'AIConnected' }],
+    ['a frame with a numeric type', { type: 3 }],
+  ];
+
+  it.each(malformed)('reports %s as malformed', (_, frame) => {
+    expect(diagnostic(JSON.stringify(frame)).kind).toBe('malformed');
+  });
+
+  it('reports frames that are not JSON objects as malformed', () => {
+    for (const raw of ['{', '', 'null', '42', '"event"', '[{"type":"pong","id":1}]']) {
+      expect(diagnostic(raw).kind).toBe('malformed');
+    }
+  });
+
+  it('reports unknown types and events as unknown, not malformed', () => {
+    expect(diagnostic('{"type":"telemetry"}')).toMatchObject({ kind: 'unknown', detail: 'Unknown message type "telemetry"' });
+    expect(diagnostic('{"type":"event","name":"AIThinking"}')).toMatchObject({ kind: 'unknown', detail: 'Unknown event "AIThinking"' });
+  });
+
+  it('keeps at most 200 characters of the offending frame', () => {
+    const raw = JSON.stringify({ type: 'textDelta', text: 5, padding: 'x'.repeat(500) });
+    expect(diagnostic(raw).raw).toBe(raw.slice(0, 200));
+  });
+
+  it('passes seq through and rejects bad ones', () => {
+    const result = parseServerMessage('{"type":"textDelta","text":"a","seq":12}');
+    expect(result).toEqual({ ok: true, message: { type: 'textDelta', text: 'a' }, seq: 12 });
+    expect(parseServerMessage('{"type":"pong","id":1}')).not.toHaveProperty('seq');
+    for (const seq of ['-1', '1.5', '"3"', 'null']) {
+      expect(diagnostic(`{"type":"pong","id":1,"seq":${seq}}`).kind).toBe('malformed');
+    }
+  });
+});
+
+describe('parsePong', () => {
+  it('reads pong ids and ignores everything else', () => {
+    expect(parsePong('{"type":"pong","id":3}')).toBe(3);
+    expect(parsePong('{"type":"pong","id":"3"}')).toBeNull();
+    expect(parsePong('{"type":"textDelta","text":"pong"}')).toBeNull();
+    expect(parsePong('{"type":"textDelta","text":"\\"pong\\""}')).toBeNull();
+  });
+});
+
+describe('createHello', () => {
+  it('offers codecs only when there is more than PCM16', () => {
+    expect(createHello()).toEqual({ type: 'hello', protocolVersion: PROTOCOL_VERSION, client: 'voice-chat-frontend' });
+    expect(createHello(undefined, ['pcm16'])).not.toHaveProperty('codecs');
+    expect(createHello({ sessionId: 's1', lastSeq: 9 }, ['opus', 'pcm16'])).toMatchObject({
+      resume: { sessionId: 's1', lastSeq: 9 },
+      codecs: ['opus', 'pcm16'],
+    });
+  });
+});
+
+describe('isCompatibleVersion', () => {
+  it('accepts only the exact protocol version', () => {
+    expect(isCompatibleVersion(PROTOCOL_VERSION)).toBe(true);
+    expect(isCompatibleVersion(PROTOCOL_VERSION + 1)).toBe(false);
+    expect(isCompatibleVersion(PROTOCOL_VERSION - 1)).toBe(false);
+    expect(isCompatibleVersion(PROTOCOL_VERSION + 0.5)).toBe(false);
+  });
+});
+
+describe('auth close codes', () => {
+  it('recognises the backend rejecting a credential', () => {
+    expect([4401, 4403, 4408].map(isAuthCloseCode)).toEqual([true, true, true]);
+    expect([1000, 1006, 4000].map(isAuthCloseCode)).toEqual([false, false, false]);
+    expect(describeAuthClose(4408)).toBe('The credential expired.');
+    expect(describeAuthClose(1006)).toBeNull();
+  });
+});
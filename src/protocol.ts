@@ -0,0 +1,355 @@
+// protocol.ts
+// Wire protocol between the frontend and the voice backend. JSON text frames
+// are described here; binary frames carry raw PCM16 audio.
+//
+// Each AI reply has a `responseId`. Its events and text deltas name it, and an
+// `audio` frame names the reply the binary frames after it belong to, so
+// replies that overlap or arrive out of order don't get mixed. Servers that
+// send no ids get one reply at a time, as before.
+//
+// The server numbers every frame it sends, audio included. Text frames state
+// their number in `seq`; a binary frame is one past the frame before it. The
+// client acks what arrived and, after a reconnect, asks to resume from there.
+
+export const PROTOCOL_VERSION = 1;
+export const CLIENT_NAME = 'voice-chat-frontend';
+
+// Encoding of the binary audio frames, both directions (see utils/audioCodec.ts)
+export type AudioCodec = 'pcm16' | 'opus';
+
+// ─── Client → server ──────────────────────────────────────
+
+// Credential for backends that authenticate in-band. Sent before hello when the
+// profile uses first-frame auth, and again on the open socket whenever the
+// token is refreshed, so a refresh never needs a reconnect.
+export interface AuthMessage {
+  type: 'auth';
+  token: string;
+}
+
+// Picks a dropped session back up; the server replays every frame after lastSeq
+export interface ResumeRequest {
+  sessionId: string;
+  lastSeq: number;
+}
+
+// First frame after the socket opens (after auth, if any)
+export interface HelloMessage {
+  type: 'hello';
+  protocolVersion: number;
+  client: string;
+  resume?: ResumeRequest;
+  codecs?: AudioCodec[]; // what the client can send and receive, preferred first
+}
+
+// Falls back to another codec mid-session, e.g. when the Opus codec fails
+export interface CodecMessage {
+  type: 'codec';
+  codec: AudioCodec;
+}
+
+// Highest frame received so far; the server can drop older ones from its replay buffer
+export interface AckMessage {
+  type: 'ack';
+  seq: number;
+}
+
+export interface UtteranceEndMessage {
+  type: 'control';
+  action: 'utteranceEnd';
+  reason: 'vad' | 'manual';
+}
+
+export interface InterruptMessage {
+  type: 'control';
+  action: 'interrupt';
+  playedMs: number;
+  responseId?: string; // the reply talked over, when the server named it
+}
+
+// Throw away the audio streamed for the utterance in progress; no reply follows
+export interface UtteranceCancelMessage {
+  type: 'control';
+  action: 'utteranceCancel';
+}
+
+// Stop generating the reply in progress (or about to start); frames already
+// in flight for it are dropped by the client
+export interface ResponseCancelMessage {
+  type: 'control';
+  action: 'responseCancel';
+  playedMs: number;
+  responseId?: string; // absent when the reply hadn't started yet
+}
+
+export type ControlMessage = UtteranceEndMessage | UtteranceCancelMessage | InterruptMessage | ResponseCancelMessage;
+
+// A typed user turn; answered like a spoken one (textDelta, audio, AIResponseEnd)
+export interface UserTextMessage {
+  type: 'userText';
+  text: string;
+}
+
+// Heartbeat; the server answers with a pong carrying the same id. Neither
+// side numbers heartbeat frames.
+export interface PingMessage {
+  type: 'ping';
+  id: number;
+}
+
+export type ClientMessage =
+  | AuthMessage
+  | HelloMessage
+  | CodecMessage
+  | AckMessage
+  | PingMessage
+  | ControlMessage
+  | UserTextMessage;
+
+// ─── Server → client ──────────────────────────────────────
+
+export interface AIConnectedEvent {
+  type: 'event';
+  name: 'AIConnected';
+  sessionId?: string;
+}
+
+export interface AIResponseStartEvent {
+  type: 'event';
+  name: 'AIResponseStart';
+  sessionId?: string;
+  responseId?: string;
+}
+
+export interface AIResponseEndEvent {
+  type: 'event';
+  name: 'AIResponseEnd';
+  sessionId?: string;
+  responseId?: string;
+  finalText?: string;
+}
+
+export type ServerEvent = AIConnectedEvent | AIResponseStartEvent | AIResponseEndEvent;
+
+export interface HelloAckMessage {
+  type: 'helloAck';
+  protocolVersion: number;
+  sessionId?: string;
+  resumed?: boolean; // the requested session was picked up; missed frames follow
+  codec?: AudioCodec; // picked from hello's codecs; PCM16 when absent
+}
+
+export interface TextDeltaMessage {
+  type: 'textDelta';
+  text: string;
+  responseId?: string;
+}
+
+// Binary frames from here until the next `audio` frame belong to this reply
+export interface AudioDescriptorMessage {
+  type: 'audio';
+  responseId: string;
+}
+
+// Server-side transcription of the user's speech. Partial results carry the
+// whole hypothesis so far (not a delta); the final one closes the utterance.
+export interface UserTranscriptMessage {
+  type: 'userTranscript';
+  text: string;
+  isFinal: boolean;
+}
+
+export interface PongMessage {
+  type: 'pong';
+  id: number;
+}
+
+export interface ServerErrorMessage {
+  type: 'error';
+  message: string;
+  code?: string;
+}
+
+export type ServerMessage =
+  | ServerEvent
+  | HelloAckMessage
+  | TextDeltaMessage
+  | AudioDescriptorMessage
+  | UserTranscriptMessage
+  | PongMessage
+  | ServerErrorMessage;
+
+// Close codes the backend uses to reject a credential. The same token is never
+// retried after one of these; only an expired one is worth a fresh attempt.
+export const AUTH_CLOSE_CODES = {
+  unauthorized: 4401, // missing or invalid credential
+  forbidden: 4403, // valid credential, no access to this backend
+  expired: 4408, // credential expired and wasn't refreshed in time
+} as const;
+
+export function isAuthCloseCode(code: number): boolean {
+  return Object.values(AUTH_CLOSE_CODES).some((c) => c === code);
+}
+
+export function describeAuthClose(code: number): string | null {
+  switch (code) {
+    case AUTH_CLOSE_CODES.unauthorized:
+      return 'The backend rejected the credential.';
+    case AUTH_CLOSE_CODES.forbidden:
+      return 'This account is not allowed to use the backend.';
+    case AUTH_CLOSE_CODES.expired:
+      return 'The credential expired.';
+    default:
+      return null;
+  }
+}
+
+// ─── Parsing & encoding ───────────────────────────────────
+
+export interface ProtocolDiagnostic {
+  kind: 'malformed' | 'unknown' | 'version';
+  detail: string;
+  raw?: string; // offending frame, truncated
+}
+
+export type ParseResult =
+  | { ok: true; message: ServerMessage; seq?: number }
+  | { ok: false; diagnostic: ProtocolDiagnostic };
+
+const MAX_RAW_IN_DIAGNOSTIC = 200;
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isOptionalString = (v: unknown): v is string | undefined =>
+  v === undefined || typeof v === 'string';
+
+const isAudioCodec = (v: unknown): v is AudioCodec => v === 'pcm16' || v === 'opus';
+
+const fail = (kind: ProtocolDiagnostic['kind'], detail: string, raw?: string): ParseResult => ({
+  ok: false,
+  diagnostic: { kind, detail, raw: raw?.slice(0, MAX_RAW_IN_DIAGNOSTIC) },
+});
+
+const ok = (message: ServerMessage): ParseResult => ({ ok: true, message });
+
+function parseEvent(data: Record<string, unknown>, raw: string): ParseResult {
+  const { name, sessionId } = data;
+  if (typeof name !== 'string') return fail('malformed', 'Event without a "name"', raw);
+  if (!isOptionalString(sessionId)) return fail('malformed', `${name}: "sessionId" must be a string`, raw);
+
+  switch (name) {
+    case 'AIConnected':
+      return ok({ type: 'event', name, sessionId });
+    case 'AIResponseStart': {
+      const { responseId } = data;
+      if (!isOptionalString(responseId)) return fail('malformed', 'AIResponseStart: "responseId" must be a string', raw);
+      return ok({ type: 'event', name, sessionId, responseId });
+    }
+    case 'AIResponseEnd': {
+      const { finalText, responseId } = data;
+      if (!isOptionalString(finalText)) return fail('malformed', 'AIResponseEnd: "finalText" must be a string', raw);
+      if (!isOptionalString(responseId)) return fail('malformed', 'AIResponseEnd: "responseId" must be a string', raw);
+      return ok({ type: 'event', name, sessionId, responseId, finalText });
+    }
+    default:
+      return fail('unknown', `Unknown event "${name}"`, raw);
+  }
+}
+
+// Validates a JSON text frame. Never throws.
+export function parseServerMessage(raw: string): ParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (e) {
+    return fail('malformed', `Invalid JSON: ${e instanceof Error ? e.message : String(e)}`, raw);
+  }
+  if (!isRecord(data) || typeof data.type !== 'string') {
+    return fail('malformed', 'Frame has no "type"', raw);
+  }
+  const { seq } = data;
+  if (seq !== undefined && !(typeof seq === 'number' && Number.isInteger(seq) && seq >= 0)) {
+    return fail('malformed', `${data.type}: "seq" must be a non-negative integer`, raw);
+  }
+
+  const result = parseBody(data as Record<string, unknown> & { type: string }, raw);
+  return result.ok && seq !== undefined ? { ...result, seq } : result;
+}
+
+function parseBody(data: Record<string, unknown> & { type: string }, raw: string): ParseResult {
+  switch (data.type) {
+    case 'event':
+      return parseEvent(data, raw);
+    case 'helloAck': {
+      const { protocolVersion, sessionId, resumed, codec } = data;
+      if (typeof protocolVersion !== 'number') return fail('malformed', 'helloAck: "protocolVersion" must be a number', raw);
+      if (!isOptionalString(sessionId)) return fail('malformed', 'helloAck: "sessionId" must be a string', raw);
+      if (resumed !== undefined && typeof resumed !== 'boolean') return fail('malformed', 'helloAck: "resumed" must be a boolean', raw);
+      if (codec !== undefined && !isAudioCodec(codec)) return fail('malformed', `helloAck: unknown codec "${String(codec)}"`, raw);
+      return ok({ type: 'helloAck', protocolVersion, sessionId, resumed, codec });
+    }
+    case 'textDelta': {
+      const { text, responseId } = data;
+      if (typeof text !== 'string') return fail('malformed', 'textDelta: "text" must be a string', raw);
+      if (!isOptionalString(responseId)) return fail('malformed', 'textDelta: "responseId" must be a string', raw);
+      return ok({ type: 'textDelta', text, responseId });
+    }
+    case 'audio':
+      if (typeof data.responseId !== 'string') return fail('malformed', 'audio: "responseId" must be a string', raw);
+      return ok({ type: 'audio', responseId: data.responseId });
+    case 'userTranscript': {
+      const { text, isFinal } = data;
+      if (typeof text !== 'string') return fail('malformed', 'userTranscript: "text" must be a string', raw);
+      if (typeof isFinal !== 'boolean') return fail('malformed', 'userTranscript: "isFinal" must be a boolean', raw);
+      return ok({ type: 'userTranscript', text, isFinal });
+    }
+    case 'pong':
+      if (typeof data.id !== 'number') return fail('malformed', 'pong: "id" must be a number', raw);
+      return ok({ type: 'pong', id: data.id });
+    case 'error': {
+      const { message, code } = data;
+      if (typeof message !== 'string') return fail('malformed', 'error: "message" must be a string', raw);
+      if (!isOptionalString(code)) return fail('malformed', 'error: "code" must be a string', raw);
+      return ok({ type: 'error', message, code });
+    }
+    default:
+      return fail('unknown', `Unknown message type "${data.type}"`, raw);
+  }
+}
+
+export function encodeClientMessage(message: ClientMessage): string {
+  return JSON.stringify(message);
+}
+
+export function createAuth(token: string): AuthMessage {
+  return { type: 'auth', token };
+}
+
+export function createHello(resume?: ResumeRequest, codecs?: AudioCodec[]): HelloMessage {
+  const hello: HelloMessage = { type: 'hello', protocolVersion: PROTOCOL_VERSION, client: CLIENT_NAME };
+  if (resume) hello.resume = resume;
+  // PCM16 alone is what every server assumes anyway
+  if (codecs && codecs.some((c) => c !== 'pcm16')) hello.codecs = codecs;
+  return hello;
+}
+
+export function createPing(id: number): PingMessage {
+  return { type: 'ping', id };
+}
+
+// Cheap check for the transport layer, which answers heartbeats itself
+export function parsePong(raw: string): number | null {
+  if (!raw.includes('"pong"')) return null;
+  const result = parseServerMessage(raw);
+  return result.ok && result.message.type === 'pong' ? result.message.id : null;
+}
+
+export function createAck(seq: number): AckMessage {
+  return { type: 'ack', seq };
+}
+
+// Versions are plain integers; only an exact match is guaranteed to work
+export function isCompatibleVersion(serverVersion: number): boolean {
+  return serverVersion === PROTOCOL_VERSION;
+}
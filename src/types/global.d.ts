@@ -7,9 +7,25 @@ interface Message {
   sender: 'user' | 'ai' | 'system'; // Added 'system' for feedback messages
   text?: string; // Text is now optional
   audioBuffer?: ArrayBuffer; // Store the raw audio data directly
+  sampleRate?: number; // rate of audioBuffer; TARGET_SAMPLE_RATE when absent
+  audioEvicted?: boolean; // audio dropped from storage to stay within quota
   timestamp: number;
   isPlaying?: boolean;
   playbackProgress?: number;
+  interrupted?: PlaybackInterruption; // set when the user barged in on this AI reply
+  incomplete?: boolean; // connection dropped mid-reply and the session could not be resumed
+  cancelled?: boolean; // the user stopped this AI reply; `interrupted` says how far it got
+}
+
+// PCM16 sent for one user turn, waiting to be paired with its final transcript
+interface RecordedUtterance {
+  audio: ArrayBuffer;
+  endedAt: number;
+}
+
+interface PlaybackInterruption {
+  playedMs: number; // how much of the reply had been heard
+  receivedMs: number; // how much audio had arrived by then
 }
 
 interface ChatMessagesProps {
@@ -31,6 +47,7 @@ interface ControlsProps {
 // Define props interface
 interface DownloadButtonProps {
     lastRawAudioBuffer: ArrayBuffer | null;
+    sampleRate: number; // rate of lastRawAudioBuffer
     isPlaying: boolean; // Renamed for consistency
 }
 
@@ -56,18 +73,3 @@ interface MicButtonProps {
     isAIReady: boolean;
     onClick: () => void;
 }
-
-type ServerEventDataBase = {
-  type: string;
-  name: string;
-  sessionId?: string;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  [key: string]: any;
-};
-
-type ServerEventAIResponseEnd = ServerEventDataBase & {
-  name: 'AIResponseEnd';
-  finalText?: string;
-};
-
-type HandledServerEvent = ServerEventDataBase | ServerEventAIResponseEnd;
\ No newline at end of file
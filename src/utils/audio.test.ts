@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import {
+  concatArrayBuffers,
+  decodeWav,
+  deinterleave,
+  encodeWav,
+  floatTo16BitPCM,
+  interleave,
+  pcm16ToFloat32,
+  pcmByteLength,
+  pcmDuration,
+  resampleFloat32,
+  resamplePcm16,
+} from './audio';
+
+const bytes = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer));
+const ascii = (s: string) => Array.from(s, (c) => c.charCodeAt(0));
+const u16 = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+const u32 = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, (n >>> 24) & 0xff];
+
+const tone = (frequency: number, sampleRate: number, length: number) =>
+  Float32Array.from({ length }, (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+// RMS over the middle of the buffer, away from the edges
+const rms = (samples: Float32Array) => {
+  const start = Math.floor(samples.length / 4);
+  const end = Math.floor((samples.length * 3) / 4);
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / (end - start));
+};
+
+describe('encodeWav', () => {
+  it('writes a PCM16 mono header followed by the samples', () => {
+    const pcm = new Int16Array([0, 1, -1, 0x7fff, -0x8000]).buffer;
+    expect(bytes(encodeWav(pcm, 24000))).toEqual([
+      ...ascii('RIFF'), ...u32(36 + 10), ...ascii('WAVE'),
+      ...ascii('fmt '), ...u32(16), ...u16(1), ...u16(1), ...u32(24000), ...u32(48000), ...u16(2), ...u16(16),
+      ...ascii('data'), ...u32(10),
+      0x00, 0x00, 0x01, 0x00, 0xff, 0xff, 0xff, 0x7f, 0x00, 0x80,
+    ]);
+  });
+
+  it('writes a float32 stereo header', () => {
+    const samples = new Float32Array([0.5, -0.5, 1, -1]).buffer;
+    const wav = encodeWav(samples, 48000, { numChannels: 2, encoding: 'float32' });
+    expect(bytes(wav.slice(0, 44))).toEqual([
+      ...ascii('RIFF'), ...u32(36 + 16), ...ascii('WAVE'),
+      ...ascii('fmt '), ...u32(16), ...u16(3), ...u16(2), ...u32(48000), ...u32(384000), ...u16(8), ...u16(32),
+      ...ascii('data'), ...u32(16),
+    ]);
+    expect(bytes(wav.slice(44))).toEqual(bytes(samples));
+  });
+});
+
+describe('decodeWav', () => {
+  it('round-trips what encodeWav writes', () => {
+    const pcm = new Int16Array([10, -20, 30, -40]).buffer;
+    const decoded = decodeWav(encodeWav(pcm, 16000, { numChannels: 2 }));
+    expect(decoded).toMatchObject({ sampleRate: 16000, numChannels: 2, encoding: 'pcm16' });
+    expect(bytes(decoded.data)).toEqual(bytes(pcm));
+  });
+
+  it('skips unknown chunks, honours padding and reads extensible float', () => {
+    const samples = new Float32Array([0.25, -0.75]);
+    const header = [
+      ...ascii('RIFF'), ...u32(0), ...ascii('WAVE'),
+      ...ascii('LIST'), ...u32(3), 1, 2, 3, 0, // odd size, one pad byte
+      ...ascii('fmt '), ...u32(40), ...u16(0xfffe), ...u16(1), ...u32(44100), ...u32(176400), ...u16(4), ...u16(32),
+      ...u16(22), ...u16(32), ...u32(4), ...u16(3), ...new Array<number>(14).fill(0),
+      ...ascii('data'), ...u32(8),
+    ];
+    const wav = new Uint8Array(header.length + 8);
+    wav.set(header);
+    wav.set(new Uint8Array(samples.buffer), header.length);
+
+    const decoded = decodeWav(wav.buffer);
+    expect(decoded).toMatchObject({ sampleRate: 44100, numChannels: 1, encoding: 'float32' });
+    expect(Array.from(new Float32Array(decoded.data))).toEqual([0.25, -0.75]);
+  });
+
+  it('takes what is there when the data size was never filled in', () => {
+    const wav = encodeWav(new Int16Array([1, 2, 3]).buffer, 8000);
+    new DataView(wav).setUint32(40, 0xffffffff, true);
+    expect(bytes(decodeWav(wav).data)).toEqual([1, 0, 2, 0, 3, 0]);
+  });
+
+  it('rejects what it cannot read', () => {
+    expect(() => decodeWav(new ArrayBuffer(44))).toThrow('Not a WAV file.');
+    const eightBit = encodeWav(new ArrayBuffer(4), 8000);
+    new DataView(eightBit).setUint16(34, 8, true);
+    expect(() => decodeWav(eightBit)).toThrow('Unsupported WAV encoding (format 1, 8 bit).');
+  });
+});
+
+describe('sample conversion', () => {
+  it('converts float to PCM16 with clipping and rounding', () => {
+    const pcm = floatTo16BitPCM(new Float32Array([0, 1, -1, 2, -2, 0.5, -0.5]));
+    expect(Array.from(pcm)).toEqual([0, 32767, -32768, 32767, -32768, 16384, -16384]);
+  });
+
+  it('round-trips PCM16 through float exactly', () => {
+    const pcm = new Int16Array([0, 1, -1, 1234, -1234, 32767, -32768]);
+    expect(Array.from(floatTo16BitPCM(pcm16ToFloat32(pcm.buffer)))).toEqual(Array.from(pcm));
+  });
+
+  it('interleaves and deinterleaves channels', () => {
+    const left = new Float32Array([1, 2, 3]);
+    const right = new Float32Array([-1, -2, -3]);
+    const stereo = interleave([left, right]);
+    expect(Array.from(stereo)).toEqual([1, -1, 2, -2, 3, -3]);
+    expect(deinterleave(stereo, 2).map((c) => Array.from(c))).toEqual([[1, 2, 3], [-1, -2, -3]]);
+  });
+});
+
+describe('buffers and durations', () => {
+  it('concatenates buffers byte for byte', () => {
+    const joined = concatArrayBuffers([new Uint8Array([1, 2]).buffer, new ArrayBuffer(0), new Uint8Array([3]).buffer]);
+    expect(bytes(joined)).toEqual([1, 2, 3]);
+  });
+
+  it('converts between bytes and seconds', () => {
+    expect(pcmDuration(48000, 24000)).toBe(1);
+    expect(pcmDuration(48000, 24000, 2)).toBe(0.5);
+    expect(pcmDuration(384000, 48000, 2, 'float32')).toBe(1);
+    expect(pcmByteLength(0.5, 24000)).toBe(24000);
+    expect(pcmByteLength(0.00003, 24000, 2)).toBe(0); // less than one frame
+    expect(pcmByteLength(1 / 3, 16000, 2, 'float32') % 8).toBe(0); // whole frames only
+  });
+});
+
+describe('resampling', () => {
+  it('passes matching rates through untouched', () => {
+    const samples = new Float32Array([1, 2, 3]);
+    expect(resampleFloat32(samples, 24000, 24000)).toBe(samples);
+  });
+
+  it('produces the expected length in both directions', () => {
+    expect(resampleFloat32(new Float32Array(2048), 48000, 24000)).toHaveLength(1024);
+    expect(resampleFloat32(new Float32Array(2048), 44100, 16000)).toHaveLength(744);
+    expect(resampleFloat32(new Float32Array(1000), 16000, 48000)).toHaveLength(3000);
+  });
+
+  it('keeps DC at unity gain', () => {
+    const out = resampleFloat32(new Float32Array(4096).fill(0.25), 48000, 16000);
+    for (const s of out) expect(s).toBeCloseTo(0.25, 6);
+  });
+
+  it('keeps tones in the passband and removes those above the new Nyquist', () => {
+    const kept = resampleFloat32(tone(1000, 48000, 9600), 48000, 16000);
+    expect(rms(kept)).toBeCloseTo(0.5 / Math.SQRT2, 2);
+    // 12 kHz would alias to 4 kHz at 16 kHz; box averaging lets most of it through
+    const removed = resampleFloat32(tone(12000, 48000, 9600), 48000, 16000);
+    expect(rms(removed)).toBeLessThan(0.005);
+  });
+
+  it('upsamples without imaging', () => {
+    const out = resampleFloat32(tone(3000, 16000, 3200), 16000, 48000);
+    const expected = tone(3000, 48000, 9600);
+    let maxError = 0;
+    for (let i = 2400; i < 7200; i++) maxError = Math.max(maxError, Math.abs(out[i] - expected[i]));
+    expect(maxError).toBeLessThan(0.01);
+  });
+
+  it('resamples PCM16 buffers', () => {
+    const pcm = floatTo16BitPCM(new Float32Array(480).fill(0.5)).buffer;
+    const out = new Int16Array(resamplePcm16(pcm, 48000, 24000));
+    expect(out).toHaveLength(240);
+    for (const s of out) expect(s).toBe(16384);
+  });
+});
@@ -1,12 +1,38 @@
 // utils/audio.ts
-export function addWavHeader(
-  pcmData: ArrayBuffer,
-  sampleRate: number,
-  numChannels: number,
-  bytesPerSample: number
-): ArrayBuffer {
-  const dataSize = pcmData.byteLength;
-  const buffer = new ArrayBuffer(44 + dataSize);
+// Everything that touches raw samples: WAV containers, sample conversion,
+// resampling and the byte/duration bookkeeping for PCM buffers. Audio on the
+// wire and in storage is little-endian 16-bit PCM, mono, unless noted.
+import { createResampler, type ResamplerQuality } from './resampler';
+
+export type SampleEncoding = 'pcm16' | 'float32';
+
+export interface WavOptions {
+  numChannels?: number; // default 1; multi-channel data is interleaved
+  encoding?: SampleEncoding; // default 'pcm16'
+}
+
+export interface WavAudio {
+  sampleRate: number;
+  numChannels: number;
+  encoding: SampleEncoding;
+  data: ArrayBuffer; // interleaved samples, little-endian
+}
+
+const WAV_HEADER_BYTES = 44;
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export const bytesPerSample = (encoding: SampleEncoding): number => (encoding === 'float32' ? 4 : 2);
+
+// ─── WAV ──────────────────────────────────────────────────
+
+// Canonical 44-byte RIFF header followed by `data` as-is
+export function encodeWav(data: ArrayBuffer, sampleRate: number, options: WavOptions = {}): ArrayBuffer {
+  const { numChannels = 1, encoding = 'pcm16' } = options;
+  const sampleBytes = bytesPerSample(encoding);
+  const dataSize = data.byteLength;
+  const buffer = new ArrayBuffer(WAV_HEADER_BYTES + dataSize);
   const view = new DataView(buffer);
   const writeString = (offset: number, s: string) =>
     Array.from(s).forEach((c, i) =>
@@ -18,15 +44,193 @@ export function addWavHeader(
   writeString(8, 'WAVE');
   writeString(12, 'fmt ');
   view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true);
+  view.setUint16(20, encoding === 'float32' ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
   view.setUint16(22, numChannels, true);
   view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
-  view.setUint16(32, numChannels * bytesPerSample, true);
-  view.setUint16(34, bytesPerSample * 8, true);
+  view.setUint32(28, sampleRate * numChannels * sampleBytes, true);
+  view.setUint16(32, numChannels * sampleBytes, true);
+  view.setUint16(34, sampleBytes * 8, true);
   writeString(36, 'data');
   view.setUint32(40, dataSize, true);
 
-  new Uint8Array(buffer, 44).set(new Uint8Array(pcmData));
+  new Uint8Array(buffer, WAV_HEADER_BYTES).set(new Uint8Array(data));
   return buffer;
 }
+
+// Reads 16-bit PCM or 32-bit float WAV files, skipping chunks other than
+// `fmt ` and `data`. Throws on anything else.
+export function decodeWav(wav: ArrayBuffer): WavAudio {
+  const view = new DataView(wav);
+  const readString = (offset: number) =>
+    String.fromCharCode(...new Uint8Array(wav, offset, 4));
+  if (wav.byteLength < 12 || readString(0) !== 'RIFF' || readString(8) !== 'WAVE') {
+    throw new Error('Not a WAV file.');
+  }
+
+  let format: Omit<WavAudio, 'data'> | null = null;
+  let offset = 12;
+  while (offset + 8 <= wav.byteLength) {
+    const id = readString(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      if (size < 16 || body + size > wav.byteLength) throw new Error('WAV format chunk is truncated.');
+      let tag = view.getUint16(body, true);
+      // the real format tag leads the sub-format GUID
+      if (tag === WAVE_FORMAT_EXTENSIBLE && size >= 26) tag = view.getUint16(body + 24, true);
+      const bits = view.getUint16(body + 14, true);
+      let encoding: SampleEncoding;
+      if (tag === WAVE_FORMAT_PCM && bits === 16) encoding = 'pcm16';
+      else if (tag === WAVE_FORMAT_IEEE_FLOAT && bits === 32) encoding = 'float32';
+      else throw new Error(`Unsupported WAV encoding (format ${tag}, ${bits} bit).`);
+      const numChannels = view.getUint16(body + 2, true);
+      if (numChannels === 0) throw new Error('WAV file has no channels.');
+      format = { sampleRate: view.getUint32(body + 4, true), numChannels, encoding };
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV data comes before its format.');
+      // streaming writers leave the size at 0 or 0xffffffff; take what is there
+      const available = wav.byteLength - body;
+      const frameBytes = format.numChannels * bytesPerSample(format.encoding);
+      const length = size > 0 && size <= available ? size : available;
+      return { ...format, data: wav.slice(body, body + length - (length % frameBytes)) };
+    }
+    offset = body + size + (size & 1); // chunks are word-aligned
+  }
+  throw new Error('WAV file has no data.');
+}
+
+// ─── Samples ──────────────────────────────────────────────
+
+export function floatTo16BitPCM(input: Float32Array): Int16Array {
+  const output = new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    const s = Math.max(-1, Math.min(1, input[i]));
+    output[i] = Math.round(s < 0 ? s * 0x8000 : s * 0x7fff);
+  }
+  return output;
+}
+
+export function pcm16ToFloat32(pcmData: ArrayBuffer): Float32Array {
+  const input = new Int16Array(pcmData, 0, Math.floor(pcmData.byteLength / 2));
+  const output = new Float32Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    output[i] = input[i] / (input[i] < 0 ? 0x8000 : 0x7fff);
+  }
+  return output;
+}
+
+export function interleave(channels: Float32Array[]): Float32Array {
+  const frames = channels.reduce((min, c) => Math.min(min, c.length), channels.length ? Infinity : 0);
+  const output = new Float32Array(frames * channels.length);
+  for (let ch = 0; ch < channels.length; ch++) {
+    for (let i = 0; i < frames; i++) output[i * channels.length + ch] = channels[ch][i];
+  }
+  return output;
+}
+
+export function deinterleave(samples: Float32Array, numChannels: number): Float32Array[] {
+  const frames = Math.floor(samples.length / numChannels);
+  return Array.from({ length: numChannels }, (_, ch) => {
+    const channel = new Float32Array(frames);
+    for (let i = 0; i < frames; i++) channel[i] = samples[i * numChannels + ch];
+    return channel;
+  });
+}
+
+// ─── Buffers and durations ────────────────────────────────
+
+export function concatArrayBuffers(chunks: ArrayBuffer[]): ArrayBuffer {
+  const total = chunks.reduce((sum, b) => sum + b.byteLength, 0);
+  const buf = new ArrayBuffer(total);
+  const v = new Uint8Array(buf);
+  let offset = 0;
+  for (const c of chunks) {
+    v.set(new Uint8Array(c), offset);
+    offset += c.byteLength;
+  }
+  return buf;
+}
+
+// Seconds of audio in `byteLength` bytes of PCM
+export function pcmDuration(
+  byteLength: number,
+  sampleRate: number,
+  numChannels = 1,
+  encoding: SampleEncoding = 'pcm16'
+): number {
+  return byteLength / (sampleRate * numChannels * bytesPerSample(encoding));
+}
+
+// Byte length of `seconds` of PCM, rounded down to a whole frame
+export function pcmByteLength(
+  seconds: number,
+  sampleRate: number,
+  numChannels = 1,
+  encoding: SampleEncoding = 'pcm16'
+): number {
+  const frameBytes = numChannels * bytesPerSample(encoding);
+  return Math.max(0, Math.floor(seconds * sampleRate)) * frameBytes;
+}
+
+// ─── Resampling ───────────────────────────────────────────
+
+// One-shot resampling of a whole buffer; see utils/resampler for streams.
+// Samples past either end repeat the edge value.
+export function resampleFloat32(
+  input: Float32Array,
+  fromRate: number,
+  toRate: number,
+  quality: ResamplerQuality = 'medium'
+): Float32Array {
+  if (fromRate === toRate) return input;
+  const resampler = createResampler(fromRate, toRate, quality);
+  const head = resampler.process(input);
+  const tail = resampler.flush();
+  const output = new Float32Array(head.length + tail.length);
+  output.set(head);
+  output.set(tail, head.length);
+  return output;
+}
+
+export function resamplePcm16(pcmData: ArrayBuffer, fromRate: number, toRate: number): ArrayBuffer {
+  if (fromRate === toRate) return pcmData;
+  return floatTo16BitPCM(resampleFloat32(pcm16ToFloat32(pcmData), fromRate, toRate)).buffer as ArrayBuffer;
+}
+
+// ─── Levels ───────────────────────────────────────────────
+// Peak amplitude (0..1) of PCM16 audio in `bars` equal slices, for waveform thumbnails
+export function computePeaks(pcmData: ArrayBuffer, bars: number): number[] {
+  const samples = new Int16Array(pcmData, 0, Math.floor(pcmData.byteLength / 2));
+  const peaks = new Array<number>(bars).fill(0);
+  if (samples.length === 0) return peaks;
+  const perBar = samples.length / bars;
+  for (let bar = 0; bar < bars; bar++) {
+    const start = Math.floor(bar * perBar);
+    const end = Math.max(start + 1, Math.floor((bar + 1) * perBar));
+    let peak = 0;
+    for (let i = start; i < end && i < samples.length; i++) {
+      const v = Math.abs(samples[i]);
+      if (v > peak) peak = v;
+    }
+    peaks[bar] = peak / 0x8000;
+  }
+  return peaks;
+}
+
+// RMS and peak amplitude (0..1) of a block of float samples
+export function measureLevel(samples: Float32Array): { rms: number; peak: number } {
+  let sumSquares = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i];
+    sumSquares += s * s;
+    const abs = Math.abs(s);
+    if (abs > peak) peak = abs;
+  }
+  return { rms: samples.length ? Math.sqrt(sumSquares / samples.length) : 0, peak };
+}
+
+// dBFS, floored so silence doesn't come out as -Infinity
+export function amplitudeToDb(amplitude: number, floorDb = -100): number {
+  return amplitude > 0 ? Math.max(floorDb, 20 * Math.log10(amplitude)) : floorDb;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createAudioDecoder,
+  createAudioEncoder,
+  detectCodecs,
+  OPUS_HEADER_BYTES,
+  readOpusFrame,
+  writeOpusFrame,
+} from './audioCodec';
+
+const bytes = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer));
+
+describe('Opus frame header', () => {
+  it('round-trips timestamp, duration and packet', () => {
+    const packet = Uint8Array.from([0xfc, 0xff, 0xfe, 1, 2, 3]);
+    const frame = writeOpusFrame(packet, 0x12345678, 960);
+
+    expect(frame.byteLength).toBe(OPUS_HEADER_BYTES + packet.length);
+    expect(bytes(frame).slice(0, OPUS_HEADER_BYTES)).toEqual([0x12, 0x34, 0x56, 0x78, 0x03, 0xc0, 0, 0]);
+    const parsed = readOpusFrame(frame)!;
+    expect(parsed.timestampTicks).toBe(0x12345678);
+    expect(parsed.durationTicks).toBe(960);
+    expect(Array.from(parsed.packet)).toEqual(Array.from(packet));
+  });
+
+  it('wraps the timestamp and clamps the duration to their fields', () => {
+    const parsed = readOpusFrame(writeOpusFrame(Uint8Array.of(1), 2 ** 32 + 5, 100_000))!;
+    expect(parsed.timestampTicks).toBe(5);
+    expect(parsed.durationTicks).toBe(0xffff);
+  });
+
+  it('rejects frames too short to carry a packet', () => {
+    expect(readOpusFrame(new ArrayBuffer(0))).toBeNull();
+    expect(readOpusFrame(new ArrayBuffer(5))).toBeNull();
+    expect(readOpusFrame(writeOpusFrame(new Uint8Array(0), 0, 960))).toBeNull();
+  });
+
+  it('reads garbage headers as numbers without throwing', () => {
+    const frame = Uint8Array.from([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xab, 0xcd, 42]).buffer;
+    const parsed = readOpusFrame(frame)!;
+    expect(parsed.timestampTicks).toBe(0xffffffff);
+    expect(parsed.durationTicks).toBe(0xffff);
+    expect(Array.from(parsed.packet)).toEqual([42]);
+  });
+});
+
+describe('PCM16 codec', () => {
+  it('passes frames through, with their duration', () => {
+    const sent: [number[], number][] = [];
+    const encoder = createAudioEncoder('pcm16', 16000, (frame, ms) => sent.push([bytes(frame), ms]), () => {});
+    encoder.encode(Int16Array.of(1, 2, 3, 4).buffer);
+    encoder.encode(new ArrayBuffer(640));
+    expect(sent[0][0]).toEqual(bytes(Int16Array.of(1, 2, 3, 4).buffer));
+    expect(sent.map(([, ms]) => ms)).toEqual([0.25, 20]);
+  });
+
+  it('decodes frames as they are', async () => {
+    const decoder = createAudioDecoder('pcm16', 16000, () => {});
+    const frame = Int16Array.of(-1, 7).buffer;
+    expect(await decoder.decode(frame)).toBe(frame);
+  });
+
+  it('is all there is without WebCodecs', async () => {
+    expect(await detectCodecs(24000)).toEqual(['pcm16']);
+  });
+});
@@ -0,0 +1,228 @@
+// utils/audioCodec.ts
+// Wire codecs for the audio binary frames. PCM16 frames are raw samples, as
+// they always were. Opus frames (via WebCodecs) carry one packet each behind a
+// small header:
+//
+//   bytes 0-3  uint32 BE  timestamp, 48 kHz ticks since the stream started
+//   bytes 4-5  uint16 BE  duration, 48 kHz ticks
+//   bytes 6-7  reserved, zero
+//   bytes 8-   Opus packet
+//
+// Everything on either side of this module deals in PCM16 at the wire rate.
+import { floatTo16BitPCM, pcm16ToFloat32, pcmDuration } from './audio';
+import { createResampler, Resampler } from './resampler';
+import { OPUS_BITRATE } from '../constants';
+import type { AudioCodec } from '../protocol';
+
+export const OPUS_HEADER_BYTES = 8;
+const OPUS_CLOCK_RATE = 48000;
+const MICROS_PER_TICK = 1e6 / OPUS_CLOCK_RATE;
+const OPUS_FRAME_MICROS = 20_000; // WebCodecs' default, for chunks that don't say
+
+// An encoded frame and how much audio it carries
+export type EncodedFrameHandler = (frame: ArrayBuffer, durationMs: number) => void;
+
+export interface AudioEncoderLike {
+  encode: (pcm: ArrayBuffer) => void;
+  flush: () => Promise<void>; // everything encoded so far has been handed to onFrame
+  close: () => void;
+}
+
+export interface AudioDecoderLike {
+  // Resolves with the PCM16 for exactly this frame (possibly empty), in order
+  decode: (frame: ArrayBuffer) => Promise<ArrayBuffer>;
+  // End of a stream: settles every frame still decoding, then starts afresh
+  flush: () => Promise<void>;
+  close: () => void;
+}
+
+const opusConfig = (sampleRate: number) => ({ codec: 'opus', sampleRate, numberOfChannels: 1 });
+
+// Codecs this browser can use at `sampleRate`, most preferred first
+export async function detectCodecs(sampleRate: number): Promise<AudioCodec[]> {
+  if (typeof AudioEncoder === 'undefined' || typeof AudioDecoder === 'undefined') return ['pcm16'];
+  try {
+    const [encoder, decoder] = await Promise.all([
+      AudioEncoder.isConfigSupported({ ...opusConfig(sampleRate), bitrate: OPUS_BITRATE }),
+      AudioDecoder.isConfigSupported(opusConfig(sampleRate)),
+    ]);
+    return encoder.supported && decoder.supported ? ['opus', 'pcm16'] : ['pcm16'];
+  } catch {
+    return ['pcm16'];
+  }
+}
+
+export function writeOpusFrame(packet: Uint8Array, timestampTicks: number, durationTicks: number): ArrayBuffer {
+  const frame = new ArrayBuffer(OPUS_HEADER_BYTES + packet.byteLength);
+  const view = new DataView(frame);
+  view.setUint32(0, timestampTicks >>> 0);
+  view.setUint16(4, Math.min(0xffff, durationTicks));
+  new Uint8Array(frame, OPUS_HEADER_BYTES).set(packet);
+  return frame;
+}
+
+export function readOpusFrame(frame: ArrayBuffer): { timestampTicks: number; durationTicks: number; packet: Uint8Array } | null {
+  if (frame.byteLength <= OPUS_HEADER_BYTES) return null;
+  const view = new DataView(frame);
+  return {
+    timestampTicks: view.getUint32(0),
+    durationTicks: view.getUint16(4),
+    packet: new Uint8Array(frame, OPUS_HEADER_BYTES),
+  };
+}
+
+// ─── Encoders ──────────────────────────────────────────────
+
+function createPcmEncoder(sampleRate: number, onFrame: EncodedFrameHandler): AudioEncoderLike {
+  return {
+    encode: (pcm) => onFrame(pcm, pcmDuration(pcm.byteLength, sampleRate) * 1000),
+    flush: async () => {},
+    close: () => {},
+  };
+}
+
+function createOpusEncoder(
+  sampleRate: number,
+  onFrame: EncodedFrameHandler,
+  onError: (error: Error) => void
+): AudioEncoderLike {
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const packet = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(packet);
+      const duration = chunk.duration ?? OPUS_FRAME_MICROS;
+      onFrame(
+        writeOpusFrame(packet, Math.round(chunk.timestamp / MICROS_PER_TICK), Math.round(duration / MICROS_PER_TICK)),
+        duration / 1000
+      );
+    },
+    error: (e) => onError(e instanceof Error ? e : new Error(String(e))),
+  });
+  encoder.configure({ ...opusConfig(sampleRate), bitrate: OPUS_BITRATE });
+  let samplesSent = 0;
+
+  return {
+    encode: (pcm) => {
+      if (encoder.state !== 'configured') return;
+      const samples = pcm16ToFloat32(pcm);
+      const data = new AudioData({
+        format: 'f32',
+        sampleRate,
+        numberOfFrames: samples.length,
+        numberOfChannels: 1,
+        timestamp: Math.round((samplesSent / sampleRate) * 1e6),
+        data: samples,
+      });
+      samplesSent += samples.length;
+      encoder.encode(data);
+      data.close();
+    },
+    flush: () => (encoder.state === 'configured' ? encoder.flush() : Promise.resolve()),
+    close: () => {
+      if (encoder.state !== 'closed') encoder.close();
+    },
+  };
+}
+
+export function createAudioEncoder(
+  codec: AudioCodec,
+  sampleRate: number,
+  onFrame: EncodedFrameHandler,
+  onError: (error: Error) => void
+): AudioEncoderLike {
+  return codec === 'opus' ? createOpusEncoder(sampleRate, onFrame, onError) : createPcmEncoder(sampleRate, onFrame);
+}
+
+// ─── Decoders ──────────────────────────────────────────────
+
+function createPcmDecoder(): AudioDecoderLike {
+  return {
+    decode: async (frame) => frame,
+    flush: async () => {},
+    close: () => {},
+  };
+}
+
+interface PendingFrame {
+  timestamp: number; // microseconds, as the decoder reports it back
+  resolve: (pcm: ArrayBuffer) => void;
+  reject: (error: Error) => void;
+}
+
+function createOpusDecoder(sampleRate: number, onError: (error: Error) => void): AudioDecoderLike {
+  // frames handed to the decoder whose output hasn't come back yet, oldest first
+  let pending: PendingFrame[] = [];
+  // some decoders always answer at 48 kHz; the player expects the wire rate.
+  // One resampler for the whole stream, so packet edges don't click.
+  let resampler: Resampler | null = null;
+  let resamplerRate = 0;
+
+  const settle = (frames: PendingFrame[], pcm?: ArrayBuffer) =>
+    frames.forEach((f, i) => f.resolve(pcm && i === frames.length - 1 ? pcm : new ArrayBuffer(0)));
+
+  const decoder = new AudioDecoder({
+    output: (data) => {
+      let samples = new Float32Array(data.numberOfFrames);
+      data.copyTo(samples, { planeIndex: 0, format: 'f32-planar' });
+      if (data.sampleRate !== sampleRate) {
+        if (!resampler || resamplerRate !== data.sampleRate) {
+          resampler = createResampler(data.sampleRate, sampleRate);
+          resamplerRate = data.sampleRate;
+        }
+        samples = resampler.process(samples);
+      }
+      // outputs come back in decode order; frames ahead of this one produced nothing
+      const index = pending.findIndex((f) => f.timestamp === data.timestamp);
+      settle(pending.splice(0, index === -1 ? 1 : index + 1), floatTo16BitPCM(samples).buffer as ArrayBuffer);
+      data.close();
+    },
+    error: (e) => {
+      const error = e instanceof Error ? e : new Error(String(e));
+      const failed = pending;
+      pending = [];
+      failed.forEach((f) => f.reject(error));
+      onError(error);
+    },
+  });
+  decoder.configure(opusConfig(sampleRate));
+
+  return {
+    // Decodes continuously, so the decoder keeps its state (and its packet
+    // loss concealment) from one packet to the next
+    decode: (frame) => {
+      const parsed = readOpusFrame(frame);
+      if (!parsed || decoder.state !== 'configured') return Promise.resolve(new ArrayBuffer(0));
+      const timestamp = Math.round(parsed.timestampTicks * MICROS_PER_TICK);
+      return new Promise<ArrayBuffer>((resolve, reject) => {
+        decoder.decode(
+          new EncodedAudioChunk({
+            type: 'key', // every Opus packet decodes on its own
+            timestamp,
+            duration: Math.round(parsed.durationTicks * MICROS_PER_TICK),
+            data: parsed.packet,
+          })
+        );
+        pending.push({ timestamp, resolve, reject }); // output is never synchronous
+      });
+    },
+    flush: async () => {
+      if (decoder.state === 'configured') await decoder.flush();
+      settle(pending.splice(0));
+      // the resampler's last fraction of a millisecond is dropped: sending it
+      // as a frame of its own would throw off the server's frame count
+      resampler?.reset();
+    },
+    close: () => {
+      settle(pending.splice(0));
+      if (decoder.state !== 'closed') decoder.close();
+    },
+  };
+}
+
+export function createAudioDecoder(
+  codec: AudioCodec,
+  sampleRate: number,
+  onError: (error: Error) => void
+): AudioDecoderLike {
+  return codec === 'opus' ? createOpusDecoder(sampleRate, onError) : createPcmDecoder();
+}
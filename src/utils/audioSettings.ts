@@ -0,0 +1,131 @@
+// utils/audioSettings.ts
+// User-selected audio devices, input processing, output levels and push-to-talk, persisted in localStorage.
+
+export interface MicrophoneSettings {
+  deviceId: string; // '' = browser default
+  echoCancellation: boolean; // also what makes barge-in possible
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_MICROPHONE_SETTINGS: MicrophoneSettings = {
+  deviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+const MICROPHONE_SETTINGS_KEY = 'micSettings';
+
+// Unknown or mistyped fields fall back to the defaults
+export function loadMicrophoneSettings(): MicrophoneSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(MICROPHONE_SETTINGS_KEY) ?? '{}');
+    const settings = { ...DEFAULT_MICROPHONE_SETTINGS };
+    if (typeof stored.deviceId === 'string') settings.deviceId = stored.deviceId;
+    if (typeof stored.echoCancellation === 'boolean') settings.echoCancellation = stored.echoCancellation;
+    if (typeof stored.noiseSuppression === 'boolean') settings.noiseSuppression = stored.noiseSuppression;
+    if (typeof stored.autoGainControl === 'boolean') settings.autoGainControl = stored.autoGainControl;
+    return settings;
+  } catch {
+    return { ...DEFAULT_MICROPHONE_SETTINGS };
+  }
+}
+
+export function saveMicrophoneSettings(settings: MicrophoneSettings): void {
+  localStorage.setItem(MICROPHONE_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// getUserMedia constraints for the chosen settings, optionally ignoring the device
+export function microphoneConstraints(settings: MicrophoneSettings, anyDevice = false): MediaTrackConstraints {
+  return {
+    ...(settings.deviceId && !anyDevice ? { deviceId: { exact: settings.deviceId } } : {}),
+    channelCount: 1,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+export interface OutputSettings {
+  deviceId: string; // '' = browser default
+  volume: number; // 0..1
+  playbackRate: number; // PLAYBACK_RATE_MIN..PLAYBACK_RATE_MAX
+}
+
+export const PLAYBACK_RATE_MIN = 0.75;
+export const PLAYBACK_RATE_MAX = 2;
+
+export const DEFAULT_OUTPUT_SETTINGS: OutputSettings = {
+  deviceId: '',
+  volume: 1,
+  playbackRate: 1,
+};
+
+const OUTPUT_SETTINGS_KEY = 'outputSettings';
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export function loadOutputSettings(): OutputSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(OUTPUT_SETTINGS_KEY) ?? '{}');
+    const settings = { ...DEFAULT_OUTPUT_SETTINGS };
+    if (typeof stored.deviceId === 'string') settings.deviceId = stored.deviceId;
+    if (Number.isFinite(stored.volume)) settings.volume = clamp(stored.volume, 0, 1);
+    if (Number.isFinite(stored.playbackRate)) {
+      settings.playbackRate = clamp(stored.playbackRate, PLAYBACK_RATE_MIN, PLAYBACK_RATE_MAX);
+    }
+    return settings;
+  } catch {
+    return { ...DEFAULT_OUTPUT_SETTINGS };
+  }
+}
+
+export function saveOutputSettings(settings: OutputSettings): void {
+  localStorage.setItem(OUTPUT_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// AudioContext.setSinkId is newer than the DOM typings and missing outside Chromium
+export function supportsOutputSelection(): boolean {
+  return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+}
+
+export interface PushToTalkSettings {
+  enabled: boolean; // hold to talk, release to send; replaces click-to-toggle and hands-free
+  key: string; // KeyboardEvent.code
+}
+
+export const DEFAULT_PUSH_TO_TALK_SETTINGS: PushToTalkSettings = {
+  enabled: false,
+  key: 'Space',
+};
+
+// Already bound elsewhere, or needed to get around the page
+export const RESERVED_PUSH_TO_TALK_KEYS = ['Enter', 'NumpadEnter', 'Tab', 'Escape', 'Slash', 'Backspace'];
+const MODIFIER_KEY = /^(Shift|Control|Alt|Meta|OS)(Left|Right)?$/;
+
+export const isUsablePushToTalkKey = (code: string): boolean =>
+  !!code && !RESERVED_PUSH_TO_TALK_KEYS.includes(code) && !MODIFIER_KEY.test(code);
+
+// "KeyT" -> "T", "Digit5" -> "5", "F2" and "Space" as they are
+export function describeKeyCode(code: string): string {
+  return code.replace(/^(Key|Digit)/, '').replace(/^Numpad(?=\d)/, 'Numpad ');
+}
+
+const PUSH_TO_TALK_SETTINGS_KEY = 'pushToTalk';
+
+export function loadPushToTalkSettings(): PushToTalkSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PUSH_TO_TALK_SETTINGS_KEY) ?? '{}');
+    const settings = { ...DEFAULT_PUSH_TO_TALK_SETTINGS };
+    if (typeof stored.enabled === 'boolean') settings.enabled = stored.enabled;
+    if (typeof stored.key === 'string' && isUsablePushToTalkKey(stored.key)) settings.key = stored.key;
+    return settings;
+  } catch {
+    return { ...DEFAULT_PUSH_TO_TALK_SETTINGS };
+  }
+}
+
+export function savePushToTalkSettings(settings: PushToTalkSettings): void {
+  localStorage.setItem(PUSH_TO_TALK_SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,106 @@
+// utils/auth.ts
+// Pluggable auth step for the backend socket. A provider hands out a token
+// (a static bearer token or a short-lived ticket fetched over HTTP) and the
+// transport decides how it reaches the server.
+import { createAuth, encodeClientMessage } from '../protocol';
+
+export type AuthMode = 'none' | 'bearer' | 'ticket';
+
+// query: ?token= on the socket URL
+// firstFrame: an `auth` message before hello
+// subprotocol: an extra `bearer.<base64url token>` subprotocol
+export type AuthTransport = 'query' | 'firstFrame' | 'subprotocol';
+
+export interface AuthCredential {
+  token: string;
+  expiresAt?: number; // ms since epoch; unknown means it doesn't expire
+}
+
+export interface AuthProvider {
+  transport: AuthTransport;
+  refreshable: boolean; // whether getCredential can return a newer token
+  getCredential: () => Promise<AuthCredential>;
+}
+
+export const AUTH_SUBPROTOCOL_PREFIX = 'bearer.';
+const TOKEN_QUERY_PARAM = 'token';
+
+// Tokens may hold characters a subprotocol can't, so they travel base64url-encoded
+const toBase64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+// `exp` claim of a JWT, if the token is one
+export function jwtExpiry(token: string): number | undefined {
+  const payload = token.split('.')[1];
+  if (!payload) return undefined;
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof claims?.exp === 'number' ? claims.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function createBearerAuth(token: string, transport: AuthTransport): AuthProvider {
+  const credential = { token, expiresAt: jwtExpiry(token) };
+  return {
+    transport,
+    refreshable: false,
+    getCredential: async () => credential,
+  };
+}
+
+// Ticket endpoint contract: POST, optionally with `Authorization: Bearer`, answers
+// { ticket | token, expiresAt? (ms epoch) | expiresIn? (seconds) }
+export function createTicketAuth(endpoint: string, transport: AuthTransport, bearer?: string): AuthProvider {
+  return {
+    transport,
+    refreshable: true,
+    getCredential: async () => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        credentials: 'include',
+        headers: bearer ? { Authorization: `Bearer ${bearer}` } : undefined,
+      });
+      if (!response.ok) throw new Error(`Ticket request failed (${response.status})`);
+      const body: unknown = await response.json();
+      const data = typeof body === 'object' && body !== null ? (body as Record<string, unknown>) : {};
+      const token = typeof data.ticket === 'string' ? data.ticket : data.token;
+      if (typeof token !== 'string' || !token) throw new Error('Ticket response has no ticket');
+      const expiresAt =
+        typeof data.expiresAt === 'number'
+          ? data.expiresAt
+          : typeof data.expiresIn === 'number'
+            ? Date.now() + data.expiresIn * 1000
+            : jwtExpiry(token);
+      return { token, expiresAt };
+    },
+  };
+}
+
+// Socket URL and subprotocols for one connection attempt
+export function applyCredential(
+  url: string,
+  protocols: string[],
+  transport: AuthTransport,
+  credential: AuthCredential
+): { url: string; protocols: string[] } {
+  switch (transport) {
+    case 'query': {
+      const withToken = new URL(url);
+      withToken.searchParams.set(TOKEN_QUERY_PARAM, credential.token);
+      return { url: withToken.toString(), protocols };
+    }
+    case 'subprotocol':
+      return { url, protocols: [...protocols, AUTH_SUBPROTOCOL_PREFIX + toBase64Url(credential.token)] };
+    case 'firstFrame':
+      return { url, protocols };
+  }
+}
+
+// In-band frame: the first-frame handshake and every refresh
+export const encodeAuthFrame = (credential: AuthCredential) =>
+  encodeClientMessage(createAuth(credential.token));
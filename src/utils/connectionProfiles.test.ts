@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { ConnectionProfile, createDefaultProfile, profileFromQueryString } from './connectionProfiles';
+
+const stored: ConnectionProfile = {
+  ...createDefaultProfile(),
+  id: 'prod',
+  name: 'Production',
+  url: 'wss://voice.example/ws',
+  authMode: 'ticket',
+  token: 'secret',
+  ticketUrl: 'https://voice.example/ticket',
+  queryParams: [{ key: 'apiKey', value: 'k' }],
+};
+
+const fromUrl = (search: string) => profileFromQueryString(search, [stored], stored);
+
+describe('profileFromQueryString', () => {
+  it('returns nothing without overrides', () => {
+    expect(fromUrl('')).toBeNull();
+    expect(fromUrl('?backend=http://not-a-socket')).toBeNull();
+  });
+
+  it('keeps the stored credentials for the same origin', () => {
+    const profile = fromUrl('?backend=wss://voice.example/other&sampleRate=16000');
+    expect(profile).toMatchObject({
+      url: 'wss://voice.example/other',
+      authMode: 'ticket',
+      token: 'secret',
+      ticketUrl: 'https://voice.example/ticket',
+      sampleRate: 16000,
+      queryParams: [{ key: 'apiKey', value: 'k' }],
+    });
+  });
+
+  it('sends nothing stored to another origin', () => {
+    const profile = fromUrl('?backend=wss://attacker.example/ws&param.model=x');
+    expect(profile).toMatchObject({ url: 'wss://attacker.example/ws', authMode: 'none', queryParams: [{ key: 'model', value: 'x' }] });
+    expect(profile?.token).toBeUndefined();
+    expect(profile?.ticketUrl).toBeUndefined();
+  });
+
+  it('uses a token the link supplies itself', () => {
+    expect(fromUrl('?backend=wss://other.example/ws&token=t')).toMatchObject({ authMode: 'bearer', token: 't' });
+  });
+});
@@ -0,0 +1,210 @@
+// utils/connectionProfiles.ts
+// Backend endpoints the user can switch between at runtime. Stored in
+// localStorage; the page URL can override them for a single visit.
+import { BACKEND_WS_URL, TARGET_SAMPLE_RATE } from '../constants';
+import { AuthMode, AuthProvider, AuthTransport, createBearerAuth, createTicketAuth } from './auth';
+import type { AudioCodec } from '../protocol';
+
+export interface QueryParam {
+  key: string;
+  value: string;
+}
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  url: string; // ws:// or wss://
+  authMode: AuthMode;
+  token?: string; // the bearer token, or what the ticket endpoint is called with
+  ticketUrl?: string; // http(s) endpoint handing out short-lived tickets
+  authTransport: AuthTransport;
+  subprotocols: string[];
+  sampleRate: number; // PCM rate on the wire, both directions
+  audioCodec: AudioCodec; // offered first in the handshake; PCM16 is always the fallback
+  queryParams: QueryParam[];
+}
+
+// Wire rates offered in the profile editor; capture resamples to any of them
+export const PROFILE_SAMPLE_RATES = [8000, 16000, 22050, TARGET_SAMPLE_RATE];
+
+const AUTH_MODES: AuthMode[] = ['none', 'bearer', 'ticket'];
+const AUTH_TRANSPORTS: AuthTransport[] = ['query', 'firstFrame', 'subprotocol'];
+
+export const DEFAULT_PROFILE_ID = 'default';
+// Id of the profile built from the page's query string
+export const URL_PROFILE_ID = 'url';
+
+const PROFILES_KEY = 'connectionProfiles';
+const ACTIVE_PROFILE_KEY = 'activeConnectionProfile';
+
+// Query-string overrides, e.g. ?backend=wss://staging.example/ws&sampleRate=16000
+const URL_OVERRIDE_PARAMS = {
+  profile: 'profile', // id or name of a stored profile
+  url: 'backend',
+  token: 'token',
+  subprotocols: 'subprotocols', // comma-separated
+  sampleRate: 'sampleRate',
+  audioCodec: 'codec', // pcm16 or opus
+  queryParamPrefix: 'param.', // ?param.model=x is forwarded as ?model=x
+};
+
+export const createDefaultProfile = (): ConnectionProfile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: 'Default',
+  url: BACKEND_WS_URL,
+  authMode: 'none',
+  authTransport: 'query',
+  subprotocols: [],
+  sampleRate: TARGET_SAMPLE_RATE,
+  audioCodec: 'pcm16',
+  queryParams: [],
+});
+
+export const newProfileId = () => `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function isValidSocketUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'ws:' || parsed.protocol === 'wss:';
+  } catch {
+    return false;
+  }
+}
+
+export function isValidHttpUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+const isAudioCodec = (codec: unknown): codec is AudioCodec => codec === 'pcm16' || codec === 'opus';
+
+const isSupportedSampleRate = (rate: unknown): rate is number =>
+  typeof rate === 'number' && PROFILE_SAMPLE_RATES.includes(rate);
+
+// Drops anything that isn't a usable profile rather than failing the whole list
+function sanitizeProfile(raw: unknown): ConnectionProfile | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const p = raw as Record<string, unknown>;
+  if (typeof p.id !== 'string' || typeof p.url !== 'string' || !isValidSocketUrl(p.url)) return null;
+  const token = typeof p.token === 'string' && p.token ? p.token : undefined;
+  const ticketUrl = typeof p.ticketUrl === 'string' && isValidHttpUrl(p.ticketUrl) ? p.ticketUrl : undefined;
+  // profiles saved before auth modes existed sent their token as a query parameter
+  let authMode = AUTH_MODES.includes(p.authMode as AuthMode) ? (p.authMode as AuthMode) : token ? 'bearer' : 'none';
+  if (authMode === 'ticket' && !ticketUrl) authMode = token ? 'bearer' : 'none';
+  return {
+    id: p.id,
+    name: typeof p.name === 'string' && p.name.trim() ? p.name : p.url,
+    url: p.url,
+    authMode,
+    token,
+    ticketUrl,
+    authTransport: AUTH_TRANSPORTS.includes(p.authTransport as AuthTransport) ? (p.authTransport as AuthTransport) : 'query',
+    subprotocols: Array.isArray(p.subprotocols) ? p.subprotocols.filter((s): s is string => typeof s === 'string') : [],
+    sampleRate: isSupportedSampleRate(p.sampleRate) ? p.sampleRate : TARGET_SAMPLE_RATE,
+    audioCodec: isAudioCodec(p.audioCodec) ? p.audioCodec : 'pcm16',
+    queryParams: Array.isArray(p.queryParams)
+      ? p.queryParams.filter(
+          (q): q is QueryParam => typeof q?.key === 'string' && q.key !== '' && typeof q?.value === 'string'
+        )
+      : [],
+  };
+}
+
+export function loadProfiles(): ConnectionProfile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]');
+    const profiles = Array.isArray(stored)
+      ? stored.map(sanitizeProfile).filter((p): p is ConnectionProfile => p !== null)
+      : [];
+    return profiles.length ? profiles : [createDefaultProfile()];
+  } catch {
+    return [createDefaultProfile()];
+  }
+}
+
+export function saveProfiles(profiles: ConnectionProfile[]): void {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function loadActiveProfileId(): string | null {
+  return localStorage.getItem(ACTIVE_PROFILE_KEY);
+}
+
+export function saveActiveProfileId(id: string): void {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+}
+
+// Profile described by the page URL, if any. Named fields are layered over the
+// profile picked with ?profile= (or the fallback).
+export function profileFromQueryString(search: string, profiles: ConnectionProfile[], fallback: ConnectionProfile): ConnectionProfile | null {
+  const params = new URLSearchParams(search);
+  const keys = URL_OVERRIDE_PARAMS;
+  const selected = params.get(keys.profile);
+  const base = selected ? profiles.find((p) => p.id === selected || p.name === selected) : undefined;
+
+  const url = params.get(keys.url);
+  const sampleRate = Number(params.get(keys.sampleRate));
+  const audioCodec = params.get(keys.audioCodec);
+  const extraParams = [...params.entries()]
+    .filter(([key]) => key.startsWith(keys.queryParamPrefix) && key.length > keys.queryParamPrefix.length)
+    .map(([key, value]) => ({ key: key.slice(keys.queryParamPrefix.length), value }));
+  const hasOverride =
+    (url !== null && isValidSocketUrl(url)) ||
+    params.has(keys.token) ||
+    params.has(keys.subprotocols) ||
+    isSupportedSampleRate(sampleRate) ||
+    isAudioCodec(audioCodec) ||
+    extraParams.length > 0;
+
+  if (!hasOverride) return base ?? null;
+  if (url !== null && !isValidSocketUrl(url)) console.warn(`[connectionProfiles] Ignoring invalid ?${keys.url}=${url}`);
+
+  const start = base ?? fallback;
+  const overrideUrl = url !== null && isValidSocketUrl(url) ? url : null;
+  // A link must never carry the stored credentials (or a ticket fetched with
+  // them) to a host of its choosing: another origin gets only what the link
+  // itself supplies.
+  const foreign = overrideUrl !== null && new URL(overrideUrl).origin !== new URL(start.url).origin;
+  const token = params.get(keys.token) ?? (foreign ? undefined : start.token);
+  const startAuthMode = foreign ? 'none' : start.authMode;
+  return {
+    ...start,
+    id: URL_PROFILE_ID,
+    name: 'From page URL',
+    url: overrideUrl ?? start.url,
+    token,
+    authMode: params.has(keys.token) && startAuthMode === 'none' ? 'bearer' : startAuthMode,
+    ticketUrl: foreign ? undefined : start.ticketUrl,
+    subprotocols: params.has(keys.subprotocols)
+      ? (params.get(keys.subprotocols) ?? '').split(',').map((s) => s.trim()).filter(Boolean)
+      : start.subprotocols,
+    sampleRate: isSupportedSampleRate(sampleRate) ? sampleRate : start.sampleRate,
+    audioCodec: isAudioCodec(audioCodec) ? audioCodec : start.audioCodec,
+    queryParams: [
+      ...(foreign ? [] : start.queryParams.filter((q) => !extraParams.some((e) => e.key === q.key))),
+      ...extraParams,
+    ],
+  };
+}
+
+// The URL handed to `new WebSocket`, before the auth step adds its credential
+export function buildSocketUrl(profile: ConnectionProfile): string {
+  const url = new URL(profile.url);
+  profile.queryParams.forEach(({ key, value }) => url.searchParams.set(key, value));
+  return url.toString();
+}
+
+export function createAuthProvider(profile: ConnectionProfile): AuthProvider | null {
+  switch (profile.authMode) {
+    case 'bearer':
+      return profile.token ? createBearerAuth(profile.token, profile.authTransport) : null;
+    case 'ticket':
+      return profile.ticketUrl ? createTicketAuth(profile.ticketUrl, profile.authTransport, profile.token) : null;
+    case 'none':
+      return null;
+  }
+}
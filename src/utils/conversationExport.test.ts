@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildTimeline,
+  COMPACT_MAX_GAP_SECONDS,
+  exportJson,
+  exportSrt,
+  exportWav,
+  exportWebVtt,
+  importConversationJson,
+} from './conversationExport';
+
+const RATE = 8000;
+const T0 = 1_700_000_000_000;
+
+// `seconds` of PCM16 silence at RATE
+const audio = (seconds: number) => new ArrayBuffer(Math.round(seconds * RATE) * 2);
+
+const message = (sender: Message['sender'], endsAtMs: number, extra: Partial<Message> = {}): Message => ({
+  id: `${sender}-${endsAtMs}`,
+  sender,
+  timestamp: T0 + endsAtMs,
+  ...extra,
+});
+
+// "Hello" (1 s), then a 1 s pause, then "Hi there" (2 s)
+const conversation = [
+  message('user', 0, { text: 'Hello', audioBuffer: audio(1), sampleRate: RATE }),
+  message('ai', 3000, { text: 'Hi there', audioBuffer: audio(2), sampleRate: RATE }),
+];
+
+const layout = (messages: Message[], maxGapSeconds?: number) =>
+  buildTimeline(messages, { maxGapSeconds }).map(({ start, duration }) => [start, duration]);
+
+describe('buildTimeline', () => {
+  it('places turns so each one ends at its timestamp', () => {
+    expect(layout(conversation)).toEqual([[0, 1], [2, 2]]);
+  });
+
+  it('keeps long pauses as they were unless asked to shorten them', () => {
+    const messages = [conversation[0], message('ai', 3_600_000 + 2000, { audioBuffer: audio(2), sampleRate: RATE })];
+    expect(layout(messages)).toEqual([[0, 1], [3601, 2]]);
+    expect(layout(messages, 30)).toEqual([[0, 1], [31, 2]]);
+  });
+
+  it('never lets turns overlap', () => {
+    // the reply claims to have ended before the question did
+    const messages = [conversation[0], message('ai', 500, { audioBuffer: audio(2), sampleRate: RATE })];
+    expect(layout(messages)).toEqual([[0, 1], [1, 2]]);
+  });
+
+  it('trims interrupted replies to what was heard', () => {
+    const interrupted = message('ai', 0, {
+      audioBuffer: audio(2),
+      sampleRate: RATE,
+      interrupted: { playedMs: 500, receivedMs: 2000 },
+    });
+    const [entry] = buildTimeline([interrupted]);
+    expect(entry.duration).toBe(0.5);
+    expect(entry.audio?.byteLength).toBe(0.5 * RATE * 2);
+  });
+
+  it('estimates how long text-only turns took', () => {
+    const [words, empty] = buildTimeline([
+      message('user', 0, { text: 'one two three four five' }),
+      message('ai', 10_000),
+    ]);
+    expect(words.duration).toBe(2);
+    expect(empty.duration).toBe(1);
+  });
+});
+
+describe('exportWav', () => {
+  it('lays every turn out on one timeline with silence between', () => {
+    const wav = exportWav(conversation, RATE);
+    expect(wav.byteLength).toBe(44 + 4 * RATE * 2);
+    expect(exportWav(conversation, RATE, { maxGapSeconds: 0 }).byteLength).toBe(44 + 3 * RATE * 2);
+  });
+
+  it('cuts long pauses unless asked to keep them, up to a size limit', () => {
+    const messages = [conversation[0], message('ai', 600_000 + 2000, { audioBuffer: audio(2), sampleRate: RATE })];
+    expect(exportWav(messages, RATE).byteLength).toBe(44 + (3 + COMPACT_MAX_GAP_SECONDS) * RATE * 2);
+    expect(exportWav(messages, RATE, { maxGapSeconds: Infinity }).byteLength).toBe(44 + 603 * RATE * 2);
+
+    const dayLater = [conversation[0], message('ai', 86_400_000, { audioBuffer: audio(2), sampleRate: RATE })];
+    expect(() => exportWav(dayLater, RATE, { maxGapSeconds: Infinity })).toThrow('more than the 120');
+  });
+});
+
+describe('captions', () => {
+  it('writes SRT cues', () => {
+    expect(exportSrt(conversation)).toBe(
+      [
+        '1',
+        '00:00:00,000 --> 00:00:01,000',
+        'You: Hello',
+        '',
+        '2',
+        '00:00:02,000 --> 00:00:04,000',
+        'AI: Hi there',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('writes WebVTT cues', () => {
+    expect(exportWebVtt(conversation)).toBe(
+      [
+        'WEBVTT',
+        '',
+        '00:00:00.000 --> 00:00:01.000',
+        'You: Hello',
+        '',
+        '00:00:02.000 --> 00:00:04.000',
+        'AI: Hi there',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('keeps cue times on the wall clock past the hour', () => {
+    const messages = [conversation[0], message('ai', 3_600_000 + 2000, { text: 'Still there?' })];
+    expect(exportWebVtt(messages)).toContain('01:00:02.000 --> 01:00:03.000\nAI: Still there?');
+  });
+});
+
+describe('JSON export', () => {
+  it('round-trips messages, audio and flags', () => {
+    const messages = [
+      message('user', 0, { text: 'Hello', audioBuffer: new Int16Array([1, -2, 300]).buffer, sampleRate: 16000 }),
+      message('ai', 3000, { text: 'Hi', interrupted: { playedMs: 800, receivedMs: 1200 }, cancelled: true }),
+      message('ai', 6000, { text: 'Evicted', audioEvicted: true }),
+      message('ai', 9000, { text: 'Cut off', incomplete: true }),
+    ];
+    const imported = importConversationJson(exportJson('Chat', messages));
+
+    expect(imported.title).toBe('Chat');
+    expect(imported.messages).toHaveLength(messages.length);
+    imported.messages.forEach((m, i) => {
+      const { id, audioBuffer, ...rest } = messages[i];
+      expect(m.id).toMatch(new RegExp(`^${id}-import-`));
+      expect(m).toMatchObject(rest);
+      expect(m.audioBuffer && Array.from(new Int16Array(m.audioBuffer))).toEqual(
+        audioBuffer && Array.from(new Int16Array(audioBuffer))
+      );
+    });
+    expect(imported.messages[2].audioEvicted).toBe(true);
+    expect(imported.messages[0].audioEvicted).toBeUndefined();
+  });
+
+  it('rejects files that are not exports', () => {
+    expect(() => importConversationJson('{')).toThrow('Not a valid JSON file.');
+    expect(() => importConversationJson('{"format":"other","messages":[]}')).toThrow('Not a VoiceChat conversation export.');
+    expect(() =>
+      importConversationJson('{"format":"voice-chat-conversation","version":99,"messages":[]}')
+    ).toThrow('Unsupported export version 99.');
+    expect(() =>
+      importConversationJson('{"format":"voice-chat-conversation","version":1,"messages":[{"sender":"ai"}]}')
+    ).toThrow('Message 1 is malformed.');
+  });
+});
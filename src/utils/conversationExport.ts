@@ -0,0 +1,275 @@
+// utils/conversationExport.ts
+// Turns a conversation into downloadable files: stitched WAV, Markdown,
+// re-importable JSON and SRT/WebVTT captions.
+import { encodeWav, pcmByteLength, pcmDuration, resamplePcm16 } from './audio';
+import { TARGET_SAMPLE_RATE } from '../constants';
+import { createMessageId } from './conversationStore';
+
+export const EXPORT_FORMAT = 'voice-chat-conversation';
+export const EXPORT_VERSION = 1;
+
+// Pause length the WAV export shortens long idle periods to, unless asked to
+// keep them; a day-long conversation would otherwise be a day of silence
+export const COMPACT_MAX_GAP_SECONDS = 30;
+// Longest WAV the export builds in memory (about 350 MB at 24 kHz)
+export const WAV_EXPORT_MAX_SECONDS = 2 * 60 * 60;
+// Rough speaking rate used to time captions of messages without audio
+const WORDS_PER_SECOND = 2.5;
+
+export interface TimelineEntry {
+  message: Message;
+  start: number; // seconds from the start of the conversation
+  duration: number; // seconds
+  audio?: ArrayBuffer; // PCM16, trimmed to what was actually heard
+  sampleRate: number; // of `audio`
+}
+
+export interface TimelineOptions {
+  // Pauses longer than this are shortened to it. Unset keeps real pauses,
+  // so the timeline matches wall-clock time.
+  maxGapSeconds?: number;
+}
+
+export interface ExportedConversation {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  title: string;
+  exportedAt: number;
+  sampleRate: number; // default for messages without their own
+  messages: ExportedMessage[];
+}
+
+interface ExportedMessage {
+  id: string;
+  sender: Message['sender'];
+  text?: string;
+  timestamp: number;
+  interrupted?: PlaybackInterruption;
+  incomplete?: boolean;
+  cancelled?: boolean;
+  audioEvicted?: boolean;
+  audio?: string; // base64 PCM16
+  sampleRate?: number;
+}
+
+// ─── Timeline ─────────────────────────────────────────────
+
+const estimateTextSeconds = (text?: string) =>
+  Math.max(1, (text?.trim().split(/\s+/).length ?? 0) / WORDS_PER_SECOND);
+
+// Message timestamps mark when a turn ended, so each one starts `duration`
+// earlier. Turns never overlap and the pauses between them are kept, up to
+// `maxGapSeconds` if given.
+export function buildTimeline(messages: Message[], { maxGapSeconds = Infinity }: TimelineOptions = {}): TimelineEntry[] {
+  const sorted = [...messages].sort((a, b) => a.timestamp - b.timestamp);
+  const origin = sorted.length ? sorted[0].timestamp : 0;
+
+  const entries: TimelineEntry[] = [];
+  let cursor = 0; // end of the previous entry on the output timeline
+  let previousEnd: number | null = null; // same, in wall-clock seconds
+
+  for (const message of sorted) {
+    const sampleRate = message.sampleRate ?? TARGET_SAMPLE_RATE;
+    let audio = message.audioBuffer?.byteLength ? message.audioBuffer : undefined;
+    if (audio && message.interrupted) {
+      // only keep the part the user actually heard
+      const heardBytes = pcmByteLength(message.interrupted.playedMs / 1000, sampleRate);
+      audio = audio.slice(0, Math.min(audio.byteLength, heardBytes));
+    }
+    const duration = audio ? pcmDuration(audio.byteLength, sampleRate) : estimateTextSeconds(message.text);
+
+    const wallEnd = (message.timestamp - origin) / 1000;
+    const wallStart = wallEnd - duration;
+    const gap = previousEnd === null ? 0 : Math.max(0, wallStart - previousEnd);
+    const start = cursor + Math.min(gap, maxGapSeconds);
+
+    entries.push({ message, start, duration, audio, sampleRate });
+    cursor = start + duration;
+    previousEnd = Math.max(previousEnd ?? wallEnd, wallEnd);
+  }
+  return entries;
+}
+
+// ─── Audio ────────────────────────────────────────────────
+
+// Mono PCM16 WAV of every message with audio, laid out on the timeline.
+// Messages recorded at another rate are resampled to `sampleRate`. Long
+// pauses are cut to COMPACT_MAX_GAP_SECONDS unless `maxGapSeconds` says
+// otherwise (Infinity keeps wall-clock time).
+export function exportWav(
+  messages: Message[],
+  sampleRate: number,
+  { maxGapSeconds = COMPACT_MAX_GAP_SECONDS }: TimelineOptions = {}
+): ArrayBuffer {
+  const timeline = buildTimeline(messages, { maxGapSeconds });
+  const last = timeline[timeline.length - 1];
+  const totalSeconds = last ? last.start + last.duration : 0;
+  if (totalSeconds > WAV_EXPORT_MAX_SECONDS) {
+    throw new Error(
+      `The recording would be ${Math.round(totalSeconds / 60)} minutes long, more than the ${WAV_EXPORT_MAX_SECONDS / 60} a WAV export can hold.`
+    );
+  }
+  const totalSamples = Math.ceil(totalSeconds * sampleRate);
+  const pcm = new Int16Array(totalSamples); // zero-filled = silence
+
+  for (const entry of timeline) {
+    if (!entry.audio) continue;
+    const audio = resamplePcm16(entry.audio, entry.sampleRate, sampleRate);
+    const samples = new Int16Array(audio, 0, Math.floor(audio.byteLength / 2));
+    const offset = Math.round(entry.start * sampleRate);
+    pcm.set(samples.subarray(0, Math.max(0, totalSamples - offset)), offset);
+  }
+  return encodeWav(pcm.buffer, sampleRate);
+}
+
+// ─── Text formats ─────────────────────────────────────────
+
+const speakerLabel = (sender: Message['sender']) =>
+  sender === 'user' ? 'You' : sender === 'ai' ? 'AI' : 'System';
+
+export function exportMarkdown(title: string, messages: Message[]): string {
+  const lines = [`# ${title}`, ''];
+  for (const m of messages) {
+    const time = new Date(m.timestamp).toLocaleString();
+    lines.push(`**${speakerLabel(m.sender)}** · _${time}_`, '');
+    lines.push(m.text?.trim() || '_(no text)_');
+    if (m.interrupted) {
+      lines.push('', `> ${m.cancelled ? 'Stopped' : 'Interrupted'} after ${(m.interrupted.playedMs / 1000).toFixed(1)}s`);
+    }
+    if (m.incomplete) lines.push('', '> Connection lost before the reply finished');
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const ms = Math.round(seconds * 1000);
+  const h = Math.floor(ms / 3_600_000);
+  const m = Math.floor((ms % 3_600_000) / 60_000);
+  const s = Math.floor((ms % 60_000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+const cueText = (entry: TimelineEntry) =>
+  `${speakerLabel(entry.message.sender)}: ${entry.message.text?.trim() || '…'}`;
+
+export function exportSrt(messages: Message[], options?: TimelineOptions): string {
+  return buildTimeline(messages, options)
+    .map((entry, i) =>
+      [
+        String(i + 1),
+        `${formatCueTime(entry.start, ',')} --> ${formatCueTime(entry.start + entry.duration, ',')}`,
+        cueText(entry),
+        '',
+      ].join('\n')
+    )
+    .join('\n');
+}
+
+export function exportWebVtt(messages: Message[], options?: TimelineOptions): string {
+  const cues = buildTimeline(messages, options).map((entry) =>
+    [
+      `${formatCueTime(entry.start, '.')} --> ${formatCueTime(entry.start + entry.duration, '.')}`,
+      cueText(entry),
+      '',
+    ].join('\n')
+  );
+  return ['WEBVTT', '', ...cues].join('\n');
+}
+
+// ─── JSON (round-trips through importConversationJson) ────
+
+function arrayBufferToBase64(buf: ArrayBuffer): string {
+  const bytes = new Uint8Array(buf);
+  let binary = '';
+  const CHUNK = 0x8000; // keep String.fromCharCode under the argument limit
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+}
+
+function base64ToArrayBuffer(b64: string): ArrayBuffer {
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+export function exportJson(title: string, messages: Message[]): string {
+  const doc: ExportedConversation = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    title,
+    exportedAt: Date.now(),
+    sampleRate: TARGET_SAMPLE_RATE,
+    messages: messages.map((m) => ({
+      id: m.id,
+      sender: m.sender,
+      text: m.text,
+      timestamp: m.timestamp,
+      interrupted: m.interrupted,
+      incomplete: m.incomplete,
+      cancelled: m.cancelled,
+      audioEvicted: m.audioEvicted,
+      audio: m.audioBuffer ? arrayBufferToBase64(m.audioBuffer) : undefined,
+      sampleRate: m.audioBuffer ? m.sampleRate ?? TARGET_SAMPLE_RATE : undefined,
+    })),
+  };
+  return JSON.stringify(doc);
+}
+
+// Throws with a readable message if the file isn't one of our exports
+export function importConversationJson(json: string): { title: string; messages: Message[] } {
+  let doc: Partial<ExportedConversation>;
+  try {
+    doc = JSON.parse(json);
+  } catch {
+    throw new Error('Not a valid JSON file.');
+  }
+  if (doc.format !== EXPORT_FORMAT || !Array.isArray(doc.messages)) {
+    throw new Error('Not a VoiceChat conversation export.');
+  }
+  if (typeof doc.version !== 'number' || doc.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${doc.version}.`);
+  }
+  const defaultRate = typeof doc.sampleRate === 'number' && doc.sampleRate > 0 ? doc.sampleRate : TARGET_SAMPLE_RATE;
+  const messages = doc.messages.map((m, i): Message => {
+    if (typeof m.timestamp !== 'number' || !['user', 'ai', 'system'].includes(m.sender)) {
+      throw new Error(`Message ${i + 1} is malformed.`);
+    }
+    return {
+      id: createMessageId(`${m.id ?? `msg-${i}`}-import`),
+      sender: m.sender,
+      text: m.text,
+      timestamp: m.timestamp,
+      interrupted: m.interrupted,
+      incomplete: m.incomplete === true || undefined,
+      cancelled: m.cancelled === true || undefined,
+      audioEvicted: m.audioEvicted === true || undefined,
+      audioBuffer: m.audio ? base64ToArrayBuffer(m.audio) : undefined,
+      sampleRate: m.audio ? (typeof m.sampleRate === 'number' && m.sampleRate > 0 ? m.sampleRate : defaultRate) : undefined,
+    };
+  });
+  return {
+    title: typeof doc.title === 'string' && doc.title ? doc.title : 'Imported conversation',
+    messages,
+  };
+}
+
+// ─── Download helper ──────────────────────────────────────
+
+export function downloadBlob(data: BlobPart, mimeType: string, filename: string): void {
+  const blob = new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.style.display = 'none';
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  a.remove();
+}
@@ -0,0 +1,264 @@
+// utils/conversationStore.ts
+// IndexedDB persistence for conversations: one record per conversation plus
+// one per message (text and raw PCM audio). All functions are promise based.
+
+const DB_NAME = 'voice-chat';
+const DB_VERSION = 1;
+const CONVERSATIONS = 'conversations';
+const MESSAGES = 'messages';
+
+// Start dropping audio of old conversations once we use this share of the quota...
+const AUDIO_EVICTION_THRESHOLD = 0.8;
+// ...and free enough to get back under this share.
+const AUDIO_EVICTION_TARGET = 0.6;
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  titleIsCustom: boolean; // renamed by the user; don't overwrite with the first message
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  searchText: string; // lower-cased titles + message text, for sidebar search
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+interface StoredMessage extends Message {
+  conversationId: string;
+}
+
+let messageCount = 0;
+
+// Message ids are the store's key, so two messages created in the same
+// millisecond (overlapping replies, say) must still get different ones
+export function createMessageId(kind: string): string {
+  return `${kind}-${Date.now()}-${(++messageCount).toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(CONVERSATIONS)) {
+        db.createObjectStore(CONVERSATIONS, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(MESSAGES)) {
+        const messages = db.createObjectStore(MESSAGES, { keyPath: 'id' });
+        messages.createIndex('conversationId', 'conversationId');
+        messages.createIndex('timestamp', 'timestamp');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }).catch((e) => {
+    dbPromise = null; // allow a later retry
+    throw e;
+  });
+  return dbPromise;
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+const isQuotaError = (e: unknown) =>
+  e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const defaultTitle = (messages: Message[]) => {
+  const first = messages.find((m) => m.text && m.sender !== 'system')?.text?.trim();
+  if (!first) return `Conversation ${new Date().toLocaleString()}`;
+  return first.length > 40 ? `${first.slice(0, 40)}…` : first;
+};
+
+// isPlaying/playbackProgress are UI state and don't belong on disk
+function toStored(conversationId: string, m: Message): StoredMessage {
+  const stored: StoredMessage = { ...m, conversationId };
+  delete stored.isPlaying;
+  delete stored.playbackProgress;
+  return stored;
+}
+
+function fromStored(m: StoredMessage): Message {
+  const message: Message & { conversationId?: string } = { ...m };
+  delete message.conversationId;
+  return message;
+}
+
+// ─── Conversations ────────────────────────────────────────
+
+export async function listConversations(): Promise<ConversationSummary[]> {
+  const db = await openDb();
+  const all = await promisify<ConversationSummary[]>(
+    db.transaction(CONVERSATIONS).objectStore(CONVERSATIONS).getAll()
+  );
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function createConversation(): Promise<ConversationSummary> {
+  const db = await openDb();
+  const now = Date.now();
+  const summary: ConversationSummary = {
+    id: `conv-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    title: `Conversation ${new Date(now).toLocaleString()}`,
+    titleIsCustom: false,
+    createdAt: now,
+    updatedAt: now,
+    messageCount: 0,
+    searchText: '',
+  };
+  const tx = db.transaction(CONVERSATIONS, 'readwrite');
+  tx.objectStore(CONVERSATIONS).put(summary);
+  await transactionDone(tx);
+  return summary;
+}
+
+// Stores a complete conversation (e.g. from a JSON export) under a fresh id
+export async function importConversation(title: string, messages: Message[]): Promise<ConversationSummary> {
+  const summary = await createConversation();
+  await saveMessages(summary.id, messages, messages);
+  await renameConversation(summary.id, title);
+  return { ...summary, title, titleIsCustom: true };
+}
+
+export async function renameConversation(id: string, title: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(CONVERSATIONS, 'readwrite');
+  const store = tx.objectStore(CONVERSATIONS);
+  const summary = await promisify<ConversationSummary | undefined>(store.get(id));
+  if (summary) {
+    store.put({ ...summary, title, titleIsCustom: true });
+  }
+  await transactionDone(tx);
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([CONVERSATIONS, MESSAGES], 'readwrite');
+  tx.objectStore(CONVERSATIONS).delete(id);
+  const keys = await promisify(tx.objectStore(MESSAGES).index('conversationId').getAllKeys(id));
+  keys.forEach((key) => tx.objectStore(MESSAGES).delete(key));
+  await transactionDone(tx);
+}
+
+// ─── Messages ─────────────────────────────────────────────
+
+export async function loadMessages(conversationId: string): Promise<Message[]> {
+  const db = await openDb();
+  const stored = await promisify<StoredMessage[]>(
+    db.transaction(MESSAGES).objectStore(MESSAGES).index('conversationId').getAll(conversationId)
+  );
+  return stored.sort((a, b) => a.timestamp - b.timestamp).map(fromStored);
+}
+
+async function writeMessages(conversationId: string, changed: Message[], all: Message[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([CONVERSATIONS, MESSAGES], 'readwrite');
+  const messages = tx.objectStore(MESSAGES);
+  changed.forEach((m) => messages.put(toStored(conversationId, m)));
+
+  const conversations = tx.objectStore(CONVERSATIONS);
+  const summary = await promisify<ConversationSummary | undefined>(conversations.get(conversationId));
+  if (summary) {
+    const title = summary.titleIsCustom ? summary.title : defaultTitle(all);
+    conversations.put({
+      ...summary,
+      title,
+      updatedAt: Date.now(),
+      messageCount: all.length,
+      searchText: [title, ...all.map((m) => m.text ?? '')].join('\n').toLowerCase(),
+    });
+  }
+  await transactionDone(tx);
+}
+
+// Writes new/changed messages and refreshes the conversation summary. If the
+// browser refuses for lack of space, audio of older conversations is evicted
+// and the write retried once.
+export async function saveMessages(conversationId: string, changed: Message[], all: Message[]): Promise<void> {
+  try {
+    await writeMessages(conversationId, changed, all);
+  } catch (e) {
+    if (!isQuotaError(e)) throw e;
+    const needed = changed.reduce((sum, m) => sum + (m.audioBuffer?.byteLength ?? 0), 0);
+    console.warn(`[conversationStore] Quota exceeded, evicting old audio (need ~${needed} bytes).`);
+    const freed = await evictOldAudio(Math.max(needed, 1), conversationId);
+    if (freed === 0) throw e;
+    await writeMessages(conversationId, changed, all);
+  }
+  await enforceStorageBudget(conversationId);
+}
+
+// ─── Quota handling ───────────────────────────────────────
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+// Ask the browser not to clear our data under storage pressure. Best effort.
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+}
+
+// Drops audio (keeping text) from the oldest messages first, never touching
+// the conversation in `keepConversationId`. Returns the bytes freed.
+export async function evictOldAudio(bytesToFree: number, keepConversationId?: string): Promise<number> {
+  const db = await openDb();
+  const tx = db.transaction(MESSAGES, 'readwrite');
+  const index = tx.objectStore(MESSAGES).index('timestamp');
+  let freed = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    const cursorReq = index.openCursor();
+    cursorReq.onerror = () => reject(cursorReq.error);
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor || freed >= bytesToFree) {
+        resolve();
+        return;
+      }
+      const m = cursor.value as StoredMessage;
+      if (m.audioBuffer && m.conversationId !== keepConversationId) {
+        freed += m.audioBuffer.byteLength;
+        cursor.update({ ...m, audioBuffer: undefined, audioEvicted: true });
+      }
+      cursor.continue();
+    };
+  });
+  await transactionDone(tx);
+  if (freed > 0) console.log(`[conversationStore] Evicted ${freed} bytes of old audio.`);
+  return freed;
+}
+
+async function enforceStorageBudget(keepConversationId: string): Promise<void> {
+  const estimate = await getStorageUsage();
+  if (!estimate || estimate.quota === 0) return;
+  if (estimate.usage / estimate.quota < AUDIO_EVICTION_THRESHOLD) return;
+  await evictOldAudio(estimate.usage - estimate.quota * AUDIO_EVICTION_TARGET, keepConversationId);
+}
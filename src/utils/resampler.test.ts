@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { createResampler, type Resampler, type ResamplerQuality } from './resampler';
+
+const QUALITIES: ResamplerQuality[] = ['low', 'medium', 'high'];
+
+const tone = (frequency: number, sampleRate: number, length: number, amplitude = 0.5) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+const concat = (parts: Float32Array[]) => {
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+// Feeds `input` in render-quantum-sized pieces, as the capture worklet does
+const stream = (resampler: Resampler, input: Float32Array, chunk = 128) => {
+  const parts: Float32Array[] = [];
+  for (let i = 0; i < input.length; i += chunk) parts.push(resampler.process(input.subarray(i, i + chunk)));
+  parts.push(resampler.flush());
+  return concat(parts);
+};
+
+// Level of `frequency` in `samples`, in dB relative to a full-scale sine,
+// from a single-bin DFT over the middle half (well clear of the edges)
+const levelDb = (samples: Float32Array, frequency: number, sampleRate: number) => {
+  const start = Math.floor(samples.length / 4);
+  const end = Math.floor((samples.length * 3) / 4);
+  let re = 0;
+  let im = 0;
+  for (let i = start; i < end; i++) {
+    const angle = (2 * Math.PI * frequency * i) / sampleRate;
+    re += samples[i] * Math.cos(angle);
+    im += samples[i] * Math.sin(angle);
+  }
+  return 20 * Math.log10((2 * Math.hypot(re, im)) / (end - start));
+};
+
+describe('createResampler', () => {
+  it('rejects rates it cannot reduce to a ratio', () => {
+    expect(() => createResampler(0, 24000)).toThrow('Cannot resample 0 Hz to 24000 Hz.');
+    expect(() => createResampler(44100.5, 24000)).toThrow();
+  });
+
+  it.each(QUALITIES)('gives the same samples however the input is chunked (%s)', (quality) => {
+    const input = tone(440, 44100, 4410);
+    const whole = stream(createResampler(44100, 24000, quality), input, input.length);
+    expect(stream(createResampler(44100, 24000, quality), input, 128)).toEqual(whole);
+    expect(stream(createResampler(44100, 24000, quality), input, 37)).toEqual(whole);
+  });
+
+  it.each([
+    [48000, 24000],
+    [44100, 24000],
+    [44100, 16000],
+    [16000, 24000],
+    [22050, 48000],
+    [44100, 23999], // more phases than the table holds
+  ])('emits exactly one output per output period, %i Hz to %i Hz', (from, to) => {
+    const seconds = 10;
+    const out = stream(createResampler(from, to), new Float32Array(from * seconds));
+    expect(out).toHaveLength(to * seconds);
+  });
+
+  it.each([
+    [44100, 24000],
+    [48000, 16000],
+    [16000, 24000],
+    [44100, 23999],
+  ])('stays in phase with the input clock over a long stream, %i Hz to %i Hz', (from, to) => {
+    const seconds = 30;
+    const out = stream(createResampler(from, to), tone(1000, from, from * seconds));
+    // the last 100 ms should still line up with an ideal 1 kHz tone at the new rate
+    const expected = tone(1000, to, to * seconds);
+    let maxError = 0;
+    for (let i = out.length - Math.floor(to / 5); i < out.length - Math.floor(to / 10); i++) {
+      maxError = Math.max(maxError, Math.abs(out[i] - expected[i]));
+    }
+    expect(maxError).toBeLessThan(0.002);
+  });
+
+  it.each(QUALITIES)('keeps the passband flat (%s)', (quality) => {
+    for (const frequency of [100, 1000, 4000]) {
+      const out = stream(createResampler(44100, 24000, quality), tone(frequency, 44100, 44100, 1));
+      expect(Math.abs(levelDb(out, frequency, 24000))).toBeLessThan(0.05);
+    }
+  });
+
+  it.each([
+    ['low', -40],
+    ['medium', -60],
+    ['high', -70],
+  ] as const)('suppresses tones that would alias when downsampling (%s)', (quality, maxDb) => {
+    // 14 kHz and 20 kHz fold back to 10 kHz and 4 kHz at 24 kHz
+    for (const [frequency, alias] of [[14000, 10000], [20000, 4000]]) {
+      const out = stream(createResampler(44100, 24000, quality), tone(frequency, 44100, 44100, 1));
+      expect(levelDb(out, alias, 24000)).toBeLessThan(maxDb);
+    }
+  });
+
+  it('suppresses images when upsampling', () => {
+    // a 6 kHz tone at 16 kHz images to 10 kHz once the band goes up to 12 kHz
+    const out = stream(createResampler(16000, 24000, 'high'), tone(6000, 16000, 16000, 1));
+    expect(levelDb(out, 6000, 24000)).toBeGreaterThan(-0.5);
+    expect(levelDb(out, 10000, 24000)).toBeLessThan(-70);
+  });
+
+  it('starts over after reset', () => {
+    const resampler = createResampler(48000, 16000);
+    const input = tone(300, 48000, 4800);
+    const first = stream(resampler, input);
+    resampler.process(tone(5000, 48000, 1000));
+    resampler.reset();
+    expect(stream(resampler, input)).toEqual(first);
+  });
+});
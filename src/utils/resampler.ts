@@ -0,0 +1,139 @@
+// utils/resampler.ts
+// Streaming polyphase resampler. Every output sample is a windowed-sinc
+// interpolation of the input, low-passed below the lower Nyquist frequency so
+// downsampling doesn't alias. The rate ratio is reduced to L/M and the read
+// position kept as an exact fraction, so chunked input produces the same
+// samples as one big buffer and the output never drifts from the input clock.
+
+export type ResamplerQuality = 'low' | 'medium' | 'high';
+
+export interface Resampler {
+  // Resampled audio for this chunk; may be a few samples behind the input
+  process: (input: Float32Array) => Float32Array;
+  // Emits what the filter still holds, as if the last sample went on forever
+  flush: () => Float32Array;
+  reset: () => void;
+}
+
+interface QualitySpec {
+  zeroCrossings: number; // of the sinc kernel, each side, at the lower rate
+  rolloff: number; // cutoff as a fraction of the lower Nyquist frequency
+}
+
+// Blackman-windowed, so roughly 74 dB down in the stopband; more zero
+// crossings narrow the transition band and let the cutoff sit closer to Nyquist
+const QUALITY: Record<ResamplerQuality, QualitySpec> = {
+  low: { zeroCrossings: 8, rolloff: 0.85 },
+  medium: { zeroCrossings: 16, rolloff: 0.9 },
+  high: { zeroCrossings: 32, rolloff: 0.95 },
+};
+
+// Beyond this many phases the coefficient table interpolates between rows
+const MAX_PHASES = 512;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+const sinc = (x: number) => (x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x));
+// Blackman window over t in [-1, 1]
+const blackman = (t: number) => 0.42 + 0.5 * Math.cos(Math.PI * t) + 0.08 * Math.cos(2 * Math.PI * t);
+
+// One row per fractional read position, plus a closing row one whole sample
+// on so the last phase has a neighbour to interpolate towards. Each row is
+// normalised to unity gain at DC.
+function buildTable(phases: number, taps: number, cutoff: number, halfWidth: number): Float32Array[] {
+  return Array.from({ length: phases + 1 }, (_, p) => {
+    const offset = p / phases;
+    const row = new Float32Array(taps);
+    let sum = 0;
+    for (let k = 0; k < taps; k++) {
+      const x = k - taps / 2 + 1 - offset;
+      const h = Math.abs(x) < halfWidth ? sinc(cutoff * x) * blackman(x / halfWidth) : 0;
+      row[k] = h;
+      sum += h;
+    }
+    for (let k = 0; k < taps; k++) row[k] /= sum;
+    return row;
+  });
+}
+
+export function createResampler(fromRate: number, toRate: number, quality: ResamplerQuality = 'medium'): Resampler {
+  if (!(fromRate > 0 && toRate > 0) || !Number.isInteger(fromRate) || !Number.isInteger(toRate)) {
+    throw new Error(`Cannot resample ${fromRate} Hz to ${toRate} Hz.`);
+  }
+  const divisor = gcd(fromRate, toRate);
+  const up = toRate / divisor; // L: phases per input sample
+  const down = fromRate / divisor; // M: phase advance per output sample
+
+  const { zeroCrossings, rolloff } = QUALITY[quality];
+  const cutoff = Math.min(1, toRate / fromRate) * rolloff; // of the input Nyquist
+  const halfWidth = zeroCrossings / cutoff; // in input samples
+  const half = Math.ceil(halfWidth);
+  const taps = 2 * half; // input samples read per output sample
+  const phases = Math.min(up, MAX_PHASES);
+  const table = buildTable(phases, taps, cutoff, halfWidth);
+
+  // history[0] is `half - 1` samples before the read position
+  let history = new Float32Array(0);
+  let index = 0; // read position in history, whole samples
+  let phase = 0; // and its fraction, in 1/up of a sample
+  let primed = false;
+  let lastSample = 0;
+
+  const reset = () => {
+    history = new Float32Array(0);
+    index = 0;
+    phase = 0;
+    primed = false;
+  };
+
+  const process = (input: Float32Array): Float32Array => {
+    if (input.length === 0) return new Float32Array(0);
+    if (!primed) {
+      // hold the first sample backwards so a stream doesn't start with a step
+      history = new Float32Array(half - 1).fill(input[0]);
+      primed = true;
+    }
+    lastSample = input[input.length - 1];
+    const buffer = new Float32Array(history.length + input.length);
+    buffer.set(history);
+    buffer.set(input, history.length);
+
+    // outputs whose last tap is already in the buffer
+    const count = Math.max(0, Math.ceil(((buffer.length - taps + 1 - index) * up - phase) / down));
+    const output = new Float32Array(count);
+    for (let n = 0; n < count; n++) {
+      const position = (phase * phases) / up;
+      const row = Math.floor(position);
+      const frac = position - row;
+      const a = table[row];
+      let accum = 0;
+      if (frac === 0) {
+        for (let k = 0; k < taps; k++) accum += buffer[index + k] * a[k];
+      } else {
+        const b = table[row + 1];
+        for (let k = 0; k < taps; k++) accum += buffer[index + k] * (a[k] + (b[k] - a[k]) * frac);
+      }
+      output[n] = accum;
+      phase += down;
+      index += Math.floor(phase / up);
+      phase %= up;
+    }
+
+    const keep = Math.min(index, buffer.length);
+    history = buffer.slice(keep);
+    index -= keep;
+    return output;
+  };
+
+  return {
+    process,
+    flush: () => {
+      if (!primed) return new Float32Array(0);
+      // `half` more samples reach every output that falls before the end of
+      // the input, and none after it
+      const tail = process(new Float32Array(half).fill(lastSample));
+      reset();
+      return tail;
+    },
+    reset,
+  };
+}
@@ -0,0 +1,89 @@
+// utils/vad.ts
+// Lightweight energy + zero-crossing voice activity detector, fed with the
+// PCM16 frames produced by the recorder pipeline.
+
+export interface VadOptions {
+  energyThresholdDb: number; // window RMS (dBFS) above which it may be speech
+  maxZeroCrossingRate: number; // crossings per sample; above this it's hiss, not voice
+  minSpeechMs: number; // voiced audio needed before speech is reported
+  hangoverMs: number; // trailing silence before speech is reported as ended
+  windowMs: number; // analysis window size
+}
+
+export type VadEvent = 'speechStart' | 'speechEnd';
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  energyThresholdDb: -45,
+  maxZeroCrossingRate: 0.3,
+  minSpeechMs: 120,
+  hangoverMs: 1200,
+  windowMs: 20,
+};
+
+export interface VoiceActivityDetector {
+  process: (frame: Int16Array) => VadEvent[];
+  reset: () => void;
+  isSpeaking: () => boolean;
+}
+
+function analyseWindow(samples: Int16Array): { rmsDb: number; zcr: number } {
+  let sumSquares = 0;
+  let crossings = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i] / 0x8000;
+    sumSquares += s * s;
+    if (i > 0 && (samples[i - 1] < 0) !== (samples[i] < 0)) crossings++;
+  }
+  const rms = Math.sqrt(sumSquares / samples.length);
+  return {
+    rmsDb: rms > 0 ? 20 * Math.log10(rms) : -Infinity,
+    zcr: samples.length > 1 ? crossings / (samples.length - 1) : 0,
+  };
+}
+
+export function createVoiceActivityDetector(
+  sampleRate: number,
+  options: Partial<VadOptions> = {}
+): VoiceActivityDetector {
+  const opts = { ...DEFAULT_VAD_OPTIONS, ...options };
+  const windowSize = Math.max(1, Math.round((sampleRate * opts.windowMs) / 1000));
+
+  let speaking = false;
+  let voicedMs = 0;
+  let silentMs = 0;
+
+  const process = (frame: Int16Array): VadEvent[] => {
+    const events: VadEvent[] = [];
+    for (let start = 0; start < frame.length; start += windowSize) {
+      const window = frame.subarray(start, Math.min(start + windowSize, frame.length));
+      const durationMs = (window.length / sampleRate) * 1000;
+      const { rmsDb, zcr } = analyseWindow(window);
+      const voiced = rmsDb >= opts.energyThresholdDb && zcr <= opts.maxZeroCrossingRate;
+
+      if (!speaking) {
+        voicedMs = voiced ? voicedMs + durationMs : 0;
+        if (voicedMs >= opts.minSpeechMs) {
+          speaking = true;
+          silentMs = 0;
+          events.push('speechStart');
+        }
+      } else {
+        silentMs = voiced ? 0 : silentMs + durationMs;
+        if (silentMs >= opts.hangoverMs) {
+          speaking = false;
+          voicedMs = 0;
+          events.push('speechEnd');
+        }
+      }
+    }
+    return events;
+  };
+
+  const reset = () => {
+    speaking = false;
+    voicedMs = 0;
+    silentMs = 0;
+  };
+
+  return { process, reset, isSpeaking: () => speaking };
+}
@@ -0,0 +1,65 @@
+// worklets/pcmCaptureProcessor.ts
+// Runs on the audio rendering thread. Resamples mic input to the target rate,
+// converts it to 16-bit PCM and posts fixed-size frames to useAudioRecorder.
+import { floatTo16BitPCM } from '../utils/audio';
+import { createResampler, type Resampler, type ResamplerQuality } from '../utils/resampler';
+import { CAPTURE_PROCESSOR_NAME } from '../constants';
+
+// AudioWorkletGlobalScope is not part of the DOM lib, declare what we use.
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+export interface CaptureProcessorOptions {
+  targetSampleRate: number;
+  frameSize: number; // samples per posted frame, at targetSampleRate
+  resamplerQuality: ResamplerQuality;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private readonly frameSize: number;
+  // keeps its filter state between render quanta, so the 128-sample blocks
+  // resample as one continuous signal
+  private readonly resampler: Resampler | null;
+  private frame: Int16Array;
+  private frameFill = 0;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const opts = options.processorOptions as CaptureProcessorOptions;
+    this.resampler = sampleRate === opts.targetSampleRate
+      ? null
+      : createResampler(sampleRate, opts.targetSampleRate, opts.resamplerQuality);
+    this.frameSize = opts.frameSize;
+    this.frame = new Int16Array(this.frameSize);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true; // input not connected yet
+
+    const pcm = floatTo16BitPCM(this.resampler ? this.resampler.process(channel) : channel);
+    let read = 0;
+    while (read < pcm.length) {
+      const n = Math.min(pcm.length - read, this.frameSize - this.frameFill);
+      this.frame.set(pcm.subarray(read, read + n), this.frameFill);
+      this.frameFill += n;
+      read += n;
+      if (this.frameFill === this.frameSize) {
+        // transfer the frame instead of copying it across threads
+        this.port.postMessage(this.frame.buffer, [this.frame.buffer]);
+        this.frame = new Int16Array(this.frameSize);
+        this.frameFill = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor(CAPTURE_PROCESSOR_NAME, PcmCaptureProcessor);